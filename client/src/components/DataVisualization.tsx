@@ -3,15 +3,151 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Badge } from '@/components/ui/badge';
-import { SoilMoistureData } from '@shared/schema';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
+import { AnomalyAnalysisResponse, AnomalyEvent, ChangeAnalysisResponse, DataQuality, PrecipitationResponse, SoilMoistureReference, SoilMoistureResponse, TrendAnalysisResponse, TrendPoint } from '@shared/schema';
+import { yearsSince } from '@shared/trends';
+import { DEFAULT_INDEX, moistureIndexInfo } from '@shared/indices';
+import { regionTopic } from '@shared/live';
+import { describeQuality, getClassColor } from '@/lib/mapUtils';
+import useLiveUpdates from '@/hooks/useLiveUpdates';
+import { Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ComposedChart, Line } from 'recharts';
+
+const REGION_COLORS = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6'];
+
+const CONFIDENCE_STYLES: Record<DataQuality['confidence'], string> = {
+  high: 'bg-green-100 text-green-800',
+  medium: 'bg-yellow-100 text-yellow-800',
+  low: 'bg-red-100 text-red-800'
+};
+
+// Merge the reference index's trend into the main series by date; reference
+// values are keyed as "<region> (<index>)"
+const mergeReferenceTrends = (trends: TrendPoint[], reference?: SoilMoistureReference) => {
+  if (!reference) return trends;
+
+  const byDate = new Map<string, TrendPoint>(trends.map((point) => [point.date, { ...point }]));
+  for (const point of reference.trends) {
+    const merged = byDate.get(point.date) ?? { name: point.name, date: point.date };
+    Object.entries(point).forEach(([key, value]) => {
+      if (typeof value === 'number') {
+        merged[`${key} (${reference.index})`] = value;
+      }
+    });
+    if (point.interpolated) {
+      merged.interpolated = [
+        ...(merged.interpolated ?? []),
+        ...point.interpolated.map((region) => `${region} (${reference.index})`)
+      ];
+    }
+    byDate.set(point.date, merged);
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const PRECIPITATION_KEY = 'Precipitation (mm)';
+
+// Add the mean precipitation across regions to each trend point by date
+const mergePrecipitationTrends = (trends: TrendPoint[], precipitation?: PrecipitationResponse) => {
+  if (!precipitation) return trends;
+
+  const byDate = new Map<string, TrendPoint>(trends.map((point) => [point.date, { ...point }]));
+  for (const point of precipitation.trends) {
+    const totals = Object.values(point).filter((value): value is number => typeof value === 'number');
+    if (totals.length === 0) continue;
+
+    const merged = byDate.get(point.date) ?? { name: point.name, date: point.date };
+    merged[PRECIPITATION_KEY] = totals.reduce((sum, total) => sum + total, 0) / totals.length;
+    byDate.set(point.date, merged);
+  }
+
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+// Add each region's Sen's slope line, keyed as "<region> (trend)"
+const mergeTrendLines = (trends: TrendPoint[], analysis?: TrendAnalysisResponse) => {
+  if (!analysis) return trends;
+
+  return trends.map((point) => {
+    const merged: TrendPoint = { ...point };
+    for (const { region, slope, intercept, n } of analysis.regions) {
+      if (n >= 2) {
+        merged[`${region} (trend)`] = intercept + slope * yearsSince(analysis.startDate, point.date);
+      }
+    }
+    return merged;
+  });
+};
+
+// Mark the peak of each anomalous event on the region's line, keyed as
+// "<region> (anomaly)" with the event's type under "<region> (anomaly type)"
+const mergeAnomalyMarkers = (trends: TrendPoint[], analysis?: AnomalyAnalysisResponse) => {
+  if (!analysis) return trends;
+
+  const byDate = new Map<string, TrendPoint>(trends.map((point) => [point.date, { ...point }]));
+  for (const { region, events } of analysis.regions) {
+    for (const { peakDate, peakValue, type } of events) {
+      const point = byDate.get(peakDate);
+      if (!point) continue;
+      point[`${region} (anomaly)`] = typeof point[region] === 'number' ? point[region] : peakValue;
+      point[`${region} (anomaly type)`] = type;
+    }
+  }
+
+  return trends.map((point) => byDate.get(point.date)!);
+};
+
+// Upward triangles for wet anomalies, downward for dry ones
+const renderAnomalyMarker = (region: string, color: string) => (props: any) => {
+  const { cx, cy, payload } = props;
+  if (cx == null || cy == null || payload[`${region} (anomaly)`] === undefined) return <g key={props.key} />;
+
+  const type = payload[`${region} (anomaly type)`] as AnomalyEvent['type'];
+  const tip = type === 'wet' ? cy - 9 : cy + 9;
+  const base = type === 'wet' ? cy - 2 : cy + 2;
+  return (
+    <polygon
+      key={props.key}
+      points={`${cx},${tip} ${cx - 5},${base} ${cx + 5},${base}`}
+      stroke="#111827"
+      strokeWidth={1}
+      fill={color}
+    />
+  );
+};
+
+// Observed trend points are filled, gap-filled ones hollow
+const renderTrendDot = (key: string, color: string) => (props: any) => {
+  const { cx, cy, payload } = props;
+  if (cx == null || cy == null) return <g key={props.key} />;
+
+  const interpolated = (payload as TrendPoint).interpolated?.includes(key);
+  return (
+    <circle
+      key={props.key}
+      cx={cx}
+      cy={cy}
+      r={3}
+      stroke={color}
+      strokeWidth={1.5}
+      fill={interpolated ? '#ffffff' : color}
+    />
+  );
+};
+
+// An area in km² and as a share of the total
+const formatArea = (km2: number, total: number) =>
+  `${Math.round(km2).toLocaleString()} km² (${total > 0 ? Math.round((100 * km2) / total) : 0}%)`;
 
 interface DataVisualizationProps {
-  soilMoistureData?: {
-    data: SoilMoistureData[];
-    regions: any[];
-    trends?: any[];
-  };
+  soilMoistureData?: SoilMoistureResponse;
+  // Set while the rainfall layer is on; drawn as bars behind the trend lines
+  precipitationData?: PrecipitationResponse;
+  // Set once a trend analysis has been run; drawn as a slope line per region
+  trendAnalysis?: TrendAnalysisResponse;
+  // Set once a change detection has been run; summarized under the chart
+  changeAnalysis?: ChangeAnalysisResponse;
+  // Set once an anomaly detection has been run; event peaks are marked on the chart
+  anomalyAnalysis?: AnomalyAnalysisResponse;
   isLoading: boolean;
   isError: boolean;
   timeStep: string;
@@ -19,26 +155,37 @@ interface DataVisualizationProps {
 
 const DataVisualization: React.FC<DataVisualizationProps> = ({ 
   soilMoistureData, 
+  precipitationData,
+  trendAnalysis,
+  changeAnalysis,
+  anomalyAnalysis,
   isLoading, 
   isError,
   timeStep
 }) => {
   const [chartTimeRange, setChartTimeRange] = useState('3months');
+  // Regions that received new imagery since the page was opened, with the
+  // latest acquisition date, so the reloaded statistics can be pointed out
+  const [newImagery, setNewImagery] = useState<Record<string, string>>({});
 
-  // Get status color based on value
-  const getStatusColor = (status: string) => {
-    switch (status.toLowerCase()) {
-      case 'normal':
-        return 'bg-green-100 text-green-800';
-      case 'above normal':
-        return 'bg-blue-100 text-blue-800';
-      case 'moderate drought':
-        return 'bg-yellow-100 text-yellow-800';
-      case 'severe drought':
-        return 'bg-red-100 text-red-800';
-      default:
-        return 'bg-gray-100 text-gray-800';
+  useLiveUpdates(
+    (soilMoistureData?.data ?? []).map(({ region }) => regionTopic(region)),
+    (message) => {
+      if (message.type === 'data' && message.index === soilMoistureData?.index) {
+        setNewImagery((previous) => ({ ...previous, [message.region]: message.date }));
+      }
     }
+  );
+  const updatedRegions = Object.entries(newImagery)
+    .filter(([region]) => soilMoistureData?.data.some((result) => result.region === region));
+
+  // Badge colors of the class in the response's scheme, matching the map and legend
+  const getCategoryStyle = (category?: string): React.CSSProperties | undefined => {
+    const color = getClassColor(soilMoistureData?.classification, category);
+    if (!color) return undefined;
+    const rgb = parseInt(color.slice(1), 16);
+    const luminance = 0.299 * (rgb >> 16) + 0.587 * ((rgb >> 8) & 0xff) + 0.114 * (rgb & 0xff);
+    return { backgroundColor: color, color: luminance < 140 ? '#ffffff' : '#1f2937' };
   };
 
   // Get sign and color for change value
@@ -106,7 +253,21 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
   };
 
   // Use actual trend data from API, fall back to empty array if not available
-  const trendData = soilMoistureData?.trends || [];
+  const reference = soilMoistureData?.reference;
+  // Only overlay trend lines computed for the index on the chart
+  const analysis = trendAnalysis?.index === soilMoistureData?.index ? trendAnalysis : undefined;
+  const anomalies = anomalyAnalysis?.index === soilMoistureData?.index ? anomalyAnalysis : undefined;
+  const trendData = mergePrecipitationTrends(
+    mergeAnomalyMarkers(
+      mergeTrendLines(mergeReferenceTrends(soilMoistureData?.trends || [], reference), analysis),
+      anomalies
+    ),
+    precipitationData
+  );
+  const indexInfo = moistureIndexInfo[soilMoistureData?.index ?? DEFAULT_INDEX];
+  const referenceInfo = reference ? moistureIndexInfo[reference.index] : undefined;
+  const regionNames = soilMoistureData?.data.map(({ region }) => region) ?? [];
+  const hasInterpolated = trendData.some((point) => (point.interpolated?.length ?? 0) > 0);
   
   return (
     <div className="p-4 grid grid-cols-1 lg:grid-cols-2 gap-4">
@@ -114,8 +275,18 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
       <Card className="shadow-md overflow-hidden">
         <CardHeader className="px-4 py-3 border-b border-gray-200">
           <CardTitle className="text-base font-medium text-gray-800">
-            Soil Moisture Statistics
+            Soil Moisture Statistics ({indexInfo.id}{indexInfo.units ? `, ${indexInfo.units}` : ''})
           </CardTitle>
+          {soilMoistureData?.baseline && (
+            <p className="text-xs text-gray-500">
+              Average, z-score and percentile against the {soilMoistureData.baseline.startYear}–{soilMoistureData.baseline.endYear} climatology
+            </p>
+          )}
+          {updatedRegions.length > 0 && (
+            <p className="text-xs text-teal-700">
+              New imagery: {updatedRegions.map(([region, date]) => `${region} (${date})`).join(', ')}
+            </p>
+          )}
         </CardHeader>
         <CardContent className="p-4">
           {isLoading ? (
@@ -137,29 +308,58 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Current Value</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Average</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Change</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Z-Score</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Percentile</th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Status</th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Confidence</th>
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
                   {soilMoistureData && soilMoistureData.data ? (
                     soilMoistureData.data.map((item, index) => (
-                      <tr key={index}>
+                      <tr key={index} className={item.quality?.confidence === 'low' ? 'bg-red-50' : ''}>
                         <td className="px-4 py-2 text-sm text-gray-900">{item.region}</td>
-                        <td className="px-4 py-2 text-sm text-gray-900">{item.value.toFixed(2)}</td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {item.value !== null ? item.value.toFixed(2) : 'No data'}
+                        </td>
                         <td className="px-4 py-2 text-sm text-gray-900">{item.average.toFixed(2)}</td>
                         <td className="px-4 py-2 text-sm">
-                          {getChangeDisplay(item.value - item.average)}
+                          {item.value !== null ? getChangeDisplay(item.value - item.average) : '–'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {item.climatology ? item.climatology.zScore.toFixed(2) : '–'}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-900">
+                          {item.climatology ? `${Math.round(item.climatology.percentile)}%` : '–'}
                         </td>
                         <td className="px-4 py-2 text-sm">
-                          <Badge variant="outline" className={`${getStatusColor(item.status)}`}>
+                          <Badge
+                            variant="outline"
+                            className={item.category ? '' : 'bg-gray-100 text-gray-800'}
+                            style={getCategoryStyle(item.category)}
+                          >
                             {item.status}
                           </Badge>
                         </td>
+                        <td className="px-4 py-2 text-sm">
+                          {item.quality ? (
+                            <Badge
+                              variant="outline"
+                              className={`capitalize ${CONFIDENCE_STYLES[item.quality.confidence]}`}
+                              title={[describeQuality(item.quality), ...item.quality.issues].join('\n')}
+                            >
+                              {item.quality.confidence}
+                            </Badge>
+                          ) : '–'}
+                          {item.quality && item.quality.issues.length > 0 && (
+                            <div className="mt-1 text-xs text-red-600">{item.quality.issues.join(', ')}</div>
+                          )}
+                        </td>
                       </tr>
                     ))
                   ) : (
                     <tr>
-                      <td colSpan={5} className="px-4 py-4 text-sm text-center text-gray-500">
+                      <td colSpan={8} className="px-4 py-4 text-sm text-center text-gray-500">
                         No data available. Set date range and region parameters and click "Apply".
                       </td>
                     </tr>
@@ -201,7 +401,7 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
             </div>
           ) : (
             <ResponsiveContainer width="100%" height={250}>
-              <LineChart
+              <ComposedChart
                 data={trendData}
                 margin={{
                   top: 10,
@@ -212,28 +412,141 @@ const DataVisualization: React.FC<DataVisualizationProps> = ({
               >
                 <CartesianGrid strokeDasharray="3 3" />
                 <XAxis dataKey="name" />
-                <YAxis domain={[0, 0.6]} />
+                <YAxis yAxisId="index" domain={indexInfo.range} />
+                {referenceInfo && (
+                  <YAxis
+                    yAxisId="reference"
+                    orientation="right"
+                    domain={referenceInfo.range}
+                    label={{ value: referenceInfo.units ?? referenceInfo.id, angle: 90, position: 'insideRight' }}
+                  />
+                )}
+                {precipitationData && (
+                  <YAxis
+                    yAxisId="precipitation"
+                    orientation="right"
+                    label={{ value: 'mm', angle: 90, position: 'insideRight' }}
+                  />
+                )}
                 <Tooltip />
                 <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="North Region"
-                  stroke="#3b82f6"
-                  strokeWidth={2}
-                  dot={{ r: 3 }}
-                  activeDot={{ r: 5 }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="Southern Valley"
-                  stroke="#ef4444"
-                  strokeWidth={2}
-                  dot={{ r: 3 }}
-                  activeDot={{ r: 5 }}
-                />
-              </LineChart>
+                {precipitationData && (
+                  <Bar
+                    yAxisId="precipitation"
+                    dataKey={PRECIPITATION_KEY}
+                    fill="#93c5fd"
+                    fillOpacity={0.6}
+                  />
+                )}
+                {regionNames.map((region, i) => (
+                  <Line
+                    key={region}
+                    yAxisId="index"
+                    type="monotone"
+                    dataKey={region}
+                    stroke={REGION_COLORS[i % REGION_COLORS.length]}
+                    strokeWidth={2}
+                    dot={renderTrendDot(region, REGION_COLORS[i % REGION_COLORS.length])}
+                    activeDot={{ r: 5 }}
+                    connectNulls
+                  />
+                ))}
+                {anomalies && regionNames.map((region, i) => (
+                  <Line
+                    key={`${region}-anomaly`}
+                    yAxisId="index"
+                    dataKey={`${region} (anomaly)`}
+                    stroke="none"
+                    dot={renderAnomalyMarker(region, REGION_COLORS[i % REGION_COLORS.length])}
+                    activeDot={false}
+                    legendType="none"
+                  />
+                ))}
+                {analysis && regionNames.map((region, i) => (
+                  <Line
+                    key={`${region}-trend`}
+                    yAxisId="index"
+                    type="linear"
+                    dataKey={`${region} (trend)`}
+                    stroke={REGION_COLORS[i % REGION_COLORS.length]}
+                    strokeWidth={1}
+                    strokeDasharray="2 2"
+                    dot={false}
+                    activeDot={false}
+                    legendType="none"
+                  />
+                ))}
+                {reference && regionNames.map((region, i) => (
+                  <Line
+                    key={`${region}-reference`}
+                    yAxisId="reference"
+                    type="monotone"
+                    dataKey={`${region} (${reference.index})`}
+                    stroke={REGION_COLORS[i % REGION_COLORS.length]}
+                    strokeWidth={1.5}
+                    strokeDasharray="5 3"
+                    dot={false}
+                    connectNulls
+                  />
+                ))}
+              </ComposedChart>
             </ResponsiveContainer>
           )}
+          {analysis && (
+            <div className="mt-2 space-y-0.5 text-xs text-gray-600">
+              {analysis.regions.map(({ region, slope, pValue, direction }) => (
+                <div key={region}>
+                  {region}: Sen's slope {slope >= 0 ? '+' : ''}{slope.toFixed(4)}/yr, Mann–Kendall p = {pValue.toFixed(3)}
+                  {direction !== 'none' && <span className={direction === 'wetting' ? 'text-blue-700' : 'text-amber-700'}> ({direction})</span>}
+                </div>
+              ))}
+            </div>
+          )}
+          {changeAnalysis && (
+            <div className="mt-2 space-y-0.5 text-xs text-gray-600">
+              <div className="font-medium text-gray-700">
+                Change from {changeAnalysis.before.startDate} – {changeAnalysis.before.endDate} to {changeAnalysis.after.startDate} – {changeAnalysis.after.endDate}
+              </div>
+              {changeAnalysis.regions.map(({ region, before, after, difference, pValue, direction }) => (
+                <div key={region}>
+                  {region}: {before.toFixed(3)} → {after.toFixed(3)} ({difference >= 0 ? '+' : ''}{difference.toFixed(3)}), p = {pValue.toFixed(3)}
+                  {direction !== 'none' && <span className={direction === 'wetting' ? 'text-blue-700' : 'text-amber-700'}> ({direction})</span>}
+                </div>
+              ))}
+              <div>
+                Significant wetting over {formatArea(changeAnalysis.area.wetting, changeAnalysis.area.total)},
+                drying over {formatArea(changeAnalysis.area.drying, changeAnalysis.area.total)} (p &lt; {changeAnalysis.alpha})
+              </div>
+            </div>
+          )}
+          {anomalies && (
+            <div className="mt-2 space-y-0.5 text-xs text-gray-600">
+              <div className="font-medium text-gray-700">
+                Anomalies beyond ±{anomalies.threshold} σ of the {anomalies.baseline.startYear}–{anomalies.baseline.endYear} climatology (▲ wet, ▼ dry)
+              </div>
+              {anomalies.regions.map(({ region, events }) => {
+                const peak = events.reduce<AnomalyEvent | undefined>(
+                  (largest, event) => !largest || Math.abs(event.peakZScore) > Math.abs(largest.peakZScore) ? event : largest,
+                  undefined
+                );
+                return (
+                  <div key={region}>
+                    {region}: {events.length === 0 ? 'no events' : `${events.length} event${events.length === 1 ? '' : 's'}`}
+                    {peak && (
+                      <span className={peak.type === 'wet' ? 'text-blue-700' : 'text-amber-700'}>
+                        {' '}(largest {peak.type}, {peak.startDate} – {peak.endDate}, peak {peak.peakZScore >= 0 ? '+' : ''}{peak.peakZScore.toFixed(2)} σ)
+                      </span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+          {hasInterpolated && (
+            <p className="mt-2 text-xs text-gray-500">
+              Hollow points are gap-filled between acquisitions, not observed.
+            </p>
+          )}
         </CardContent>
       </Card>
     </div>
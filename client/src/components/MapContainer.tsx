@@ -2,19 +2,36 @@ import React, { useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Skeleton } from '@/components/ui/skeleton';
-import { SoilMoistureData } from '@shared/schema';
+import { AnomalyAnalysisResponse, ChangeAnalysisResponse, LandCoverResponse, PrecipitationResponse, SoilMoistureResponse, TrendAnalysisResponse } from '@shared/schema';
+import { MoistureIndex } from '@shared/indices';
 import { Download, Maximize, AlertCircle } from 'lucide-react';
-import { createMap, addSoilMoistureLayer, addAdminBoundaries, setupLegend } from '@/lib/mapUtils';
-
-// Define the soil moisture response interface
-interface SoilMoistureResponse {
-  data: SoilMoistureData[];
-  regions: any[];
-  trends?: any[];
-}
+import {
+  createMap,
+  addSoilMoistureLayer,
+  addPrecipitationLayer,
+  addLandCoverLayer,
+  addTrendLayer,
+  addChangeLayer,
+  addAnomalyLayer,
+  addAdminBoundaries,
+  setupLegend,
+  setupPrecipitationLegend,
+  setupLandCoverLegend,
+  setupTrendLegend,
+  setupChangeLegend,
+  setupAnomalyLegend
+} from '@/lib/mapUtils';
 
 interface MapContainerProps {
   soilMoistureData?: SoilMoistureResponse;
+  precipitationData?: PrecipitationResponse;
+  landCoverData?: LandCoverResponse;
+  // Shown as a slope layer once a trend analysis has been run
+  trendAnalysis?: TrendAnalysisResponse;
+  // Shown as a difference layer once a change detection has been run
+  changeAnalysis?: ChangeAnalysisResponse;
+  // Shown as a z-score layer once an anomaly detection has been run
+  anomalyAnalysis?: AnomalyAnalysisResponse;
   layers: {
     soilMoisture: boolean;
     rainfall: boolean;
@@ -23,14 +40,21 @@ interface MapContainerProps {
   };
   opacity: number;
   baseMap: string;
+  index: MoistureIndex;
   isLoading: boolean;
 }
 
 const MapContainer: React.FC<MapContainerProps> = ({ 
   soilMoistureData, 
+  precipitationData,
+  landCoverData,
+  trendAnalysis,
+  changeAnalysis,
+  anomalyAnalysis,
   layers, 
   opacity, 
   baseMap,
+  index,
   isLoading
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
@@ -40,12 +64,19 @@ const MapContainer: React.FC<MapContainerProps> = ({
   const rainfallLayerRef = useRef<any>(null);
   const landcoverLayerRef = useRef<any>(null);
   const legendRef = useRef<any>(null);
+  const precipitationLegendRef = useRef<any>(null);
+  const landCoverLegendRef = useRef<any>(null);
+  const trendLayerRef = useRef<any>(null);
+  const trendLegendRef = useRef<any>(null);
+  const changeLayerRef = useRef<any>(null);
+  const changeLegendRef = useRef<any>(null);
+  const anomalyLayerRef = useRef<any>(null);
+  const anomalyLegendRef = useRef<any>(null);
 
   // Initialize map when component mounts
   useEffect(() => {
     if (mapRef.current && !leafletMapRef.current) {
       leafletMapRef.current = createMap(mapRef.current, baseMap);
-      legendRef.current = setupLegend(leafletMapRef.current);
     }
 
     return () => {
@@ -104,6 +135,21 @@ const MapContainer: React.FC<MapContainerProps> = ({
     }
   }, [baseMap]);
 
+  // Rebuild the legend for the scheme the results were classified with
+  const scheme = soilMoistureData?.classification;
+  const legendIndex = soilMoistureData?.index ?? index;
+  useEffect(() => {
+    if (leafletMapRef.current) {
+      if (legendRef.current) {
+        legendRef.current.remove();
+        legendRef.current = null;
+      }
+      if (scheme) {
+        legendRef.current = setupLegend(leafletMapRef.current, legendIndex, scheme);
+      }
+    }
+  }, [legendIndex, scheme]);
+
   // Handle soil moisture layer
   useEffect(() => {
     if (leafletMapRef.current && soilMoistureData) {
@@ -118,11 +164,124 @@ const MapContainer: React.FC<MapContainerProps> = ({
         soilMoistureLayerRef.current = addSoilMoistureLayer(
           leafletMapRef.current, 
           soilMoistureData.data,
+          opacity,
+          soilMoistureData.index ?? index,
+          soilMoistureData.classification,
+          soilMoistureData.tileUrl
+        );
+      }
+    }
+  }, [soilMoistureData, layers.soilMoisture, opacity, index]);
+
+  // Handle rainfall layer
+  useEffect(() => {
+    if (leafletMapRef.current) {
+      // Remove existing rainfall layer and its legend
+      if (rainfallLayerRef.current) {
+        leafletMapRef.current.removeLayer(rainfallLayerRef.current);
+        rainfallLayerRef.current = null;
+      }
+      if (precipitationLegendRef.current) {
+        precipitationLegendRef.current.remove();
+        precipitationLegendRef.current = null;
+      }
+
+      // Add rainfall layer if enabled
+      if (layers.rainfall && precipitationData) {
+        rainfallLayerRef.current = addPrecipitationLayer(
+          leafletMapRef.current,
+          precipitationData,
           opacity
         );
+        precipitationLegendRef.current = setupPrecipitationLegend(
+          leafletMapRef.current,
+          precipitationData.range
+        );
+      }
+    }
+  }, [precipitationData, layers.rainfall, opacity]);
+
+  // Handle land cover layer
+  useEffect(() => {
+    if (leafletMapRef.current) {
+      // Remove existing land cover layer and its legend
+      if (landcoverLayerRef.current) {
+        leafletMapRef.current.removeLayer(landcoverLayerRef.current);
+        landcoverLayerRef.current = null;
+      }
+      if (landCoverLegendRef.current) {
+        landCoverLegendRef.current.remove();
+        landCoverLegendRef.current = null;
+      }
+
+      // Add land cover layer if enabled
+      if (layers.landcover && landCoverData) {
+        landcoverLayerRef.current = addLandCoverLayer(
+          leafletMapRef.current,
+          landCoverData,
+          opacity
+        );
+        landCoverLegendRef.current = setupLandCoverLegend(leafletMapRef.current);
+      }
+    }
+  }, [landCoverData, layers.landcover, opacity]);
+
+  // Handle trend slope layer
+  useEffect(() => {
+    if (leafletMapRef.current) {
+      if (trendLayerRef.current) {
+        leafletMapRef.current.removeLayer(trendLayerRef.current);
+        trendLayerRef.current = null;
+      }
+      if (trendLegendRef.current) {
+        trendLegendRef.current.remove();
+        trendLegendRef.current = null;
+      }
+
+      if (trendAnalysis) {
+        trendLayerRef.current = addTrendLayer(leafletMapRef.current, trendAnalysis, opacity);
+        trendLegendRef.current = setupTrendLegend(leafletMapRef.current, trendAnalysis);
+      }
+    }
+  }, [trendAnalysis, opacity]);
+
+  // Handle change detection difference layer
+  useEffect(() => {
+    if (leafletMapRef.current) {
+      if (changeLayerRef.current) {
+        leafletMapRef.current.removeLayer(changeLayerRef.current);
+        changeLayerRef.current = null;
+      }
+      if (changeLegendRef.current) {
+        changeLegendRef.current.remove();
+        changeLegendRef.current = null;
+      }
+
+      if (changeAnalysis) {
+        changeLayerRef.current = addChangeLayer(leafletMapRef.current, changeAnalysis, opacity);
+        changeLegendRef.current = setupChangeLegend(leafletMapRef.current, changeAnalysis);
+      }
+    }
+  }, [changeAnalysis, opacity]);
+
+  // Handle anomaly z-score layer
+  useEffect(() => {
+    if (leafletMapRef.current) {
+      if (anomalyLayerRef.current) {
+        leafletMapRef.current.removeLayer(anomalyLayerRef.current);
+        anomalyLayerRef.current = null;
+      }
+      if (anomalyLegendRef.current) {
+        anomalyLegendRef.current.remove();
+        anomalyLegendRef.current = null;
+      }
+
+      if (anomalyAnalysis) {
+        anomalyLayerRef.current = addAnomalyLayer(leafletMapRef.current, anomalyAnalysis, opacity);
+        anomalyLegendRef.current = setupAnomalyLegend(leafletMapRef.current, anomalyAnalysis);
       }
     }
-  }, [soilMoistureData, layers.soilMoisture, opacity]);
+  }, [anomalyAnalysis, opacity]);
 
   // Handle admin boundaries layer
   useEffect(() => {
@@ -1,13 +1,19 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
 import { ChevronDown, ChevronUp, BarChart2, Layers, Calendar, Info, Menu } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Slider } from '@/components/ui/slider';
 import { Separator } from '@/components/ui/separator';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { MoistureIndex, MoistureIndexInfo } from '@shared/indices';
+import { LandCoverCode, landCoverClasses } from '@shared/landCover';
+import { ClassificationScheme, DEFAULT_SCHEME } from '@shared/classification';
+import { GapFillMethod, SmoothingMethod, gapFillMethods, smoothingMethods } from '@shared/trends';
 
 interface SidebarProps {
   dateRange: {
@@ -20,6 +26,12 @@ interface SidebarProps {
     endDate: string;
     timeStep: 'daily' | 'weekly' | 'monthly';
   }>>;
+  // Earlier window for change detection
+  beforeRange: { startDate: string; endDate: string };
+  setBeforeRange: React.Dispatch<React.SetStateAction<{ startDate: string; endDate: string }>>;
+  // Standard deviations from the baseline that count as an anomaly
+  anomalyThreshold: number;
+  setAnomalyThreshold: React.Dispatch<React.SetStateAction<number>>;
   layers: {
     soilMoisture: boolean;
     rainfall: boolean;
@@ -30,30 +42,77 @@ interface SidebarProps {
   baseMap: string;
   selectedRegion: string;
   analysisType: string;
+  index: MoistureIndex;
+  reference: MoistureIndex | 'none';
+  landCover: LandCoverCode[];
+  scheme: string;
+  gapFill: GapFillMethod;
+  smoothing: SmoothingMethod;
   onLayerChange: (layer: string, checked: boolean) => void;
   onOpacityChange: (value: number) => void;
   onBaseMapChange: (value: string) => void;
   onDateRangeApply: () => void;
   onRunAnalysis: () => void;
+  isAnalysisRunning: boolean;
+  // Percent of the running analysis done
+  analysisProgress?: number;
+  onCancelAnalysis: () => void;
   setSelectedRegion: React.Dispatch<React.SetStateAction<string>>;
   setAnalysisType: React.Dispatch<React.SetStateAction<string>>;
+  setIndex: React.Dispatch<React.SetStateAction<MoistureIndex>>;
+  setReference: React.Dispatch<React.SetStateAction<MoistureIndex | 'none'>>;
+  setLandCover: React.Dispatch<React.SetStateAction<LandCoverCode[]>>;
+  setScheme: React.Dispatch<React.SetStateAction<string>>;
+  setGapFill: React.Dispatch<React.SetStateAction<GapFillMethod>>;
+  setSmoothing: React.Dispatch<React.SetStateAction<SmoothingMethod>>;
 }
 
+const GAP_FILL_LABELS: Record<GapFillMethod, string> = {
+  none: 'None',
+  linear: 'Linear interpolation',
+  harmonic: 'Harmonic fit'
+};
+
+const SMOOTHING_LABELS: Record<SmoothingMethod, string> = {
+  none: 'None',
+  'moving-average': 'Moving average',
+  'savitzky-golay': 'Savitzky–Golay'
+};
+
 const Sidebar: React.FC<SidebarProps> = ({
   dateRange,
   setDateRange,
+  beforeRange,
+  setBeforeRange,
+  anomalyThreshold,
+  setAnomalyThreshold,
   layers,
   opacity,
   baseMap,
   selectedRegion,
   analysisType,
+  index,
+  reference,
+  landCover,
+  scheme,
+  gapFill,
+  smoothing,
   onLayerChange,
   onOpacityChange,
   onBaseMapChange,
   onDateRangeApply,
   onRunAnalysis,
+  isAnalysisRunning,
+  analysisProgress,
+  onCancelAnalysis,
   setSelectedRegion,
-  setAnalysisType
+  setAnalysisType,
+  setIndex,
+  setReference,
+  setLandCover,
+  setScheme,
+  setGapFill,
+  setSmoothing
 }) => {
   const [expandedSections, setExpandedSections] = useState({
     date: true,
@@ -62,6 +121,25 @@ const Sidebar: React.FC<SidebarProps> = ({
     about: false
   });
   
+  // Indices the server's provider can compute
+  const { data: indices } = useQuery<MoistureIndexInfo[]>({ queryKey: ['/api/indices'] });
+  const selectedIndex = indices?.find(({ id }) => id === index);
+  
+  // Classification schemes usable with the selected index
+  const { data: schemes } = useQuery<ClassificationScheme[]>({
+    queryKey: [`/api/classification-schemes?index=${index}`]
+  });
+  const selectedScheme = schemes?.find(({ id }) => id === scheme);
+  
+  // Fall back to the default when the scheme does not apply to a new index
+  useEffect(() => {
+    if (schemes && !selectedScheme) setScheme(DEFAULT_SCHEME);
+  }, [schemes, selectedScheme]);
+  
+  const toggleLandCover = (code: LandCoverCode, checked: boolean) => {
+    setLandCover(prev => checked ? [...prev, code] : prev.filter(c => c !== code));
+  };
+  
   const isMobile = useIsMobile();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(!isMobile);
 
@@ -284,6 +362,118 @@ const Sidebar: React.FC<SidebarProps> = ({
           
           {expandedSections.analysis && (
             <div className="space-y-3">
+              <div>
+                <Label className="text-xs text-gray-600">Moisture Index</Label>
+                <Select 
+                  value={index} 
+                  onValueChange={(value) => setIndex(value as MoistureIndex)}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select index" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(indices ?? []).map(({ id, label }) => (
+                      <SelectItem key={id} value={id}>{id} – {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedIndex && (
+                  <p className="mt-1 text-xs text-gray-500">{selectedIndex.description}</p>
+                )}
+              </div>
+              
+              <div>
+                <Label className="text-xs text-gray-600">Compare With</Label>
+                <Select 
+                  value={reference} 
+                  onValueChange={(value) => setReference(value as MoistureIndex | 'none')}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select reference" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">None</SelectItem>
+                    {(indices ?? []).filter(({ id }) => id !== index).map(({ id, label }) => (
+                      <SelectItem key={id} value={id}>{id} – {label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label className="text-xs text-gray-600">Gap Filling</Label>
+                  <Select 
+                    value={gapFill} 
+                    onValueChange={(value) => setGapFill(value as GapFillMethod)}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Gap filling" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {gapFillMethods.map((method) => (
+                        <SelectItem key={method} value={method}>{GAP_FILL_LABELS[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label className="text-xs text-gray-600">Smoothing</Label>
+                  <Select 
+                    value={smoothing} 
+                    onValueChange={(value) => setSmoothing(value as SmoothingMethod)}
+                  >
+                    <SelectTrigger className="mt-1">
+                      <SelectValue placeholder="Smoothing" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {smoothingMethods.map((method) => (
+                        <SelectItem key={method} value={method}>{SMOOTHING_LABELS[method]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              
+              <div>
+                <Label className="text-xs text-gray-600">Classification</Label>
+                <Select 
+                  value={scheme} 
+                  onValueChange={setScheme}
+                >
+                  <SelectTrigger className="mt-1">
+                    <SelectValue placeholder="Select classification" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(schemes ?? []).map(({ id, label }) => (
+                      <SelectItem key={id} value={id}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedScheme && (
+                  <p className="mt-1 text-xs text-gray-500">{selectedScheme.description}</p>
+                )}
+              </div>
+              
+              <div>
+                <Label className="text-xs text-gray-600">Land Cover Classes</Label>
+                <p className="mt-1 text-xs text-gray-500">
+                  {landCover.length === 0 ? 'All classes count towards the statistics' : 'Statistics use only the checked classes'}
+                </p>
+                <div className="mt-1 grid grid-cols-2 gap-1">
+                  {Object.values(landCoverClasses).map(({ code, label }) => (
+                    <div key={code} className="flex items-center space-x-1">
+                      <Checkbox 
+                        id={`landcover-${code}`}
+                        checked={landCover.includes(code)}
+                        onCheckedChange={(checked) => toggleLandCover(code, checked === true)}
+                      />
+                      <Label htmlFor={`landcover-${code}`} className="text-xs text-gray-700">{label}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+              
               <div>
                 <Label className="text-xs text-gray-600">Region of Interest</Label>
                 <Select 
@@ -323,12 +513,66 @@ const Sidebar: React.FC<SidebarProps> = ({
                 </Select>
               </div>
               
+              {analysisType === 'change' && (
+                <div className="space-y-3">
+                  <p className="text-xs text-gray-500">
+                    Compares the time frame above with an earlier window.
+                  </p>
+                  <div>
+                    <Label className="text-xs text-gray-600">Before: Start Date</Label>
+                    <Input 
+                      type="date" 
+                      value={beforeRange.startDate}
+                      onChange={(e) => setBeforeRange(prev => ({ ...prev, startDate: e.target.value }))}
+                      className="mt-1"
+                    />
+                  </div>
+                  
+                  <div>
+                    <Label className="text-xs text-gray-600">Before: End Date</Label>
+                    <Input 
+                      type="date" 
+                      value={beforeRange.endDate}
+                      onChange={(e) => setBeforeRange(prev => ({ ...prev, endDate: e.target.value }))}
+                      className="mt-1"
+                    />
+                  </div>
+                </div>
+              )}
+              
+              {analysisType === 'anomaly' && (
+                <div>
+                  <Label className="text-xs text-gray-600">Threshold: ±{anomalyThreshold.toFixed(1)} standard deviations</Label>
+                  <Slider 
+                    min={0.5} 
+                    max={4} 
+                    step={0.5}
+                    value={[anomalyThreshold]}
+                    onValueChange={(value) => setAnomalyThreshold(value[0])}
+                    className="mt-2"
+                  />
+                </div>
+              )}
+              
               <Button 
                 className="w-full bg-teal-700 hover:bg-teal-800 text-white" 
                 onClick={onRunAnalysis}
+                disabled={isAnalysisRunning}
               >
-                Run Analysis
+                {isAnalysisRunning
+                  ? `Running Analysis… ${analysisProgress ?? 0}%`
+                  : 'Run Analysis'}
               </Button>
+
+              {isAnalysisRunning && (
+                <Button
+                  variant="outline"
+                  className="w-full border border-gray-300 hover:bg-gray-50 text-gray-700"
+                  onClick={onCancelAnalysis}
+                >
+                  Cancel Analysis
+                </Button>
+              )}
               
               <Button 
                 variant="outline" 
@@ -0,0 +1,71 @@
+import { useEffect, useState } from 'react';
+import { useMutation, useQuery } from '@tanstack/react-query';
+import { AnalysisJob, AnalysisRequest } from '@shared/schema';
+import { jobTopic } from '@shared/live';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import useLiveUpdates from '@/hooks/useLiveUpdates';
+
+const POLL_INTERVAL_MS = 1000;
+
+const isRunning = (job?: AnalysisJob) => job?.status === 'queued' || job?.status === 'running';
+
+// Pushed updates and fetched states can arrive out of order; a job never goes
+// back to running once finished, nor loses progress while it runs
+const later = (current: AnalysisJob | undefined, next: AnalysisJob) =>
+  current && current.id === next.id && (
+    (!isRunning(current) && isRunning(next)) ||
+    (isRunning(current) && isRunning(next) && current.progress > next.progress) ||
+    (current.status === 'running' && next.status === 'queued')
+  ) ? current : next;
+
+// Analyses run as background jobs through /api/jobs. Updates of the latest
+// job are pushed over the live update socket, so its progress and partial
+// results can be shown; it is polled only while the socket is down.
+const useAnalysisJob = () => {
+  const [jobId, setJobId] = useState<string | null>(null);
+  const jobUrl = `/api/jobs/${jobId}`;
+
+  const connected = useLiveUpdates(jobId ? [jobTopic(jobId)] : [], (message) => {
+    if (message.type === 'job') queryClient.setQueryData([`/api/jobs/${message.job.id}`], message.job);
+  });
+
+  const { data: job, refetch } = useQuery<AnalysisJob>({
+    queryKey: [jobUrl],
+    enabled: jobId !== null,
+    structuralSharing: (current, next) => later(current as AnalysisJob | undefined, next as AnalysisJob),
+    refetchInterval: (query) => (!connected && isRunning(query.state.data) ? POLL_INTERVAL_MS : false),
+  });
+
+  // Catch up on updates sent before subscribing or while disconnected
+  useEffect(() => {
+    if (connected && jobId !== null) refetch();
+  }, [connected, jobId]);
+
+  const submit = useMutation<AnalysisJob, Error, AnalysisRequest>({
+    mutationFn: async (request) => {
+      const response = await apiRequest('POST', '/api/jobs', request);
+      return response.json();
+    },
+    onSuccess: (submitted) => {
+      queryClient.setQueryData([`/api/jobs/${submitted.id}`], submitted);
+      setJobId(submitted.id);
+    },
+  });
+
+  const cancel = useMutation<AnalysisJob, Error, void>({
+    mutationFn: async () => {
+      const response = await apiRequest('DELETE', jobUrl);
+      return response.json();
+    },
+    onSuccess: (cancelled) => queryClient.setQueryData([jobUrl], cancelled),
+  });
+
+  return {
+    job: jobId !== null ? job : undefined,
+    submit: submit.mutate,
+    cancel: () => cancel.mutate(),
+    isRunning: submit.isPending || isRunning(job),
+  };
+};
+
+export default useAnalysisJob;
@@ -1,16 +1,13 @@
 import { useQuery } from '@tanstack/react-query';
-import { SoilMoistureQuery, SoilMoistureData } from '@shared/schema';
-
-// Define interface for the API response
-interface SoilMoistureResponse {
-  data: SoilMoistureData[];
-  regions: any[];
-  trends?: any[];
-}
+import { SoilMoistureQuery, SoilMoistureResponse } from '@shared/schema';
 
 const useEarthEngineData = (query: SoilMoistureQuery) => {
-  // Construct query URL with parameters
-  const queryUrl = `/api/soil-moisture?startDate=${query.startDate}&endDate=${query.endDate}&timeStep=${query.timeStep}${query.region ? `&region=${query.region}` : ''}`;
+  // Construct query URL with every parameter that is set
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const queryUrl = `/api/soil-moisture?${params.toString()}`;
   
   return useQuery<SoilMoistureResponse>({
     queryKey: [queryUrl],
@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { LandCoverQuery, LandCoverResponse } from '@shared/schema';
+
+// Land cover is only fetched while the land cover layer is switched on
+const useLandCoverData = (query: LandCoverQuery, enabled: boolean) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const queryUrl = `/api/landcover?${params.toString()}`;
+
+  return useQuery<LandCoverResponse>({
+    queryKey: [queryUrl],
+    enabled,
+  });
+};
+
+export default useLandCoverData;
@@ -0,0 +1,24 @@
+import { useEffect, useRef, useState } from 'react';
+import { LiveMessage } from '@shared/live';
+import { isLiveConnected, onLiveConnectionChange, subscribeLive } from '@/lib/liveUpdates';
+
+// Calls onMessage with the live updates published to the topics while the
+// component is mounted. Returns whether the socket is connected, so callers
+// can fall back to polling and catch up on what they missed on reconnect.
+const useLiveUpdates = (topics: string[], onMessage: (message: LiveMessage) => void) => {
+  const [connected, setConnected] = useState(isLiveConnected);
+  const onMessageRef = useRef(onMessage);
+  onMessageRef.current = onMessage;
+  const topicsKey = JSON.stringify(topics);
+
+  useEffect(() => onLiveConnectionChange(setConnected), []);
+
+  useEffect(() => {
+    if (topics.length === 0) return;
+    return subscribeLive(topics, (message) => onMessageRef.current(message));
+  }, [topicsKey]);
+
+  return connected;
+};
+
+export default useLiveUpdates;
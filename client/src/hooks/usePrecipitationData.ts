@@ -0,0 +1,18 @@
+import { useQuery } from '@tanstack/react-query';
+import { PrecipitationQuery, PrecipitationResponse } from '@shared/schema';
+
+// Precipitation is only fetched while the rainfall layer is switched on
+const usePrecipitationData = (query: PrecipitationQuery, enabled: boolean) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  const queryUrl = `/api/precipitation?${params.toString()}`;
+
+  return useQuery<PrecipitationResponse>({
+    queryKey: [queryUrl],
+    enabled: enabled && !!query.startDate && !!query.endDate && !!query.timeStep,
+  });
+};
+
+export default usePrecipitationData;
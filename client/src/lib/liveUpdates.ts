@@ -0,0 +1,99 @@
+import { LIVE_UPDATES_PATH, LiveMessage, topicOf } from '@shared/live';
+
+// One WebSocket shared by every live update subscriber. It is opened with the
+// first subscription, closed with the last, and reopened with a growing delay
+// when it drops; the topics in use are subscribed again on every connection.
+
+type Listener = (message: LiveMessage) => void;
+
+const MIN_RETRY_MS = 1000;
+const MAX_RETRY_MS = 30000;
+
+const listeners = new Map<string, Set<Listener>>();
+const connectionListeners = new Set<(connected: boolean) => void>();
+let socket: WebSocket | null = null;
+let retryMs = MIN_RETRY_MS;
+let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+const send = (type: 'subscribe' | 'unsubscribe', topics: string[]) => {
+  if (socket?.readyState === WebSocket.OPEN && topics.length > 0) {
+    socket.send(JSON.stringify({ type, topics }));
+  }
+};
+
+const setConnected = (connected: boolean) => {
+  connectionListeners.forEach((listener) => listener(connected));
+};
+
+const connect = () => {
+  const protocol = window.location.protocol === 'https:' ? 'wss:' : 'ws:';
+  const current = new WebSocket(`${protocol}//${window.location.host}${LIVE_UPDATES_PATH}`);
+  socket = current;
+
+  current.onopen = () => {
+    retryMs = MIN_RETRY_MS;
+    send('subscribe', Array.from(listeners.keys()));
+    setConnected(true);
+  };
+  current.onmessage = (event) => {
+    const message = JSON.parse(event.data) as LiveMessage;
+    if (message.type === 'error') {
+      console.error('Live updates:', message.message);
+      return;
+    }
+    const topic = topicOf(message);
+    if (topic) listeners.get(topic)?.forEach((listener) => listener(message));
+  };
+  current.onclose = () => {
+    if (socket !== current) return;
+    socket = null;
+    setConnected(false);
+    if (listeners.size === 0) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = undefined;
+      connect();
+    }, retryMs);
+    retryMs = Math.min(retryMs * 2, MAX_RETRY_MS);
+  };
+};
+
+export const isLiveConnected = () => socket?.readyState === WebSocket.OPEN;
+
+export const onLiveConnectionChange = (listener: (connected: boolean) => void) => {
+  connectionListeners.add(listener);
+  return () => {
+    connectionListeners.delete(listener);
+  };
+};
+
+// Returns the function that unsubscribes again
+export const subscribeLive = (topics: string[], listener: Listener) => {
+  const added = topics.filter((topic) => !listeners.has(topic));
+  topics.forEach((topic) => {
+    if (!listeners.has(topic)) listeners.set(topic, new Set());
+    listeners.get(topic)!.add(listener);
+  });
+
+  if (!socket && retryTimer === undefined) connect();
+  else send('subscribe', added);
+
+  return () => {
+    const removed = topics.filter((topic) => {
+      const topicListeners = listeners.get(topic);
+      topicListeners?.delete(listener);
+      if (topicListeners?.size !== 0) return false;
+      listeners.delete(topic);
+      return true;
+    });
+    send('unsubscribe', removed);
+
+    if (listeners.size === 0) {
+      clearTimeout(retryTimer);
+      retryTimer = undefined;
+      const closing = socket;
+      socket = null;
+      closing?.close();
+      if (closing) setConnected(false);
+    }
+  };
+};
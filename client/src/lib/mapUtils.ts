@@ -1,5 +1,12 @@
 // mapUtils.ts
-import { SoilMoistureData } from '@shared/schema';
+import { AnomalyAnalysisResponse, ChangeAnalysisResponse, DataQuality, LandCoverResponse, PrecipitationResponse, SoilMoistureResult, TrendAnalysisResponse } from '@shared/schema';
+import { MoistureIndex, moistureIndexInfo } from '@shared/indices';
+import { ClassificationScheme, classRange } from '@shared/classification';
+import { PRECIPITATION_PALETTE, getPrecipitationColor } from '@shared/precipitation';
+import { LandCoverCode, landCoverClasses } from '@shared/landCover';
+import { SLOPE_PALETTE, getSlopeColor } from '@shared/trends';
+import { CHANGE_PALETTE, getDifferenceColor } from '@shared/change';
+import { ANOMALY_PALETTE, ANOMALY_RANGE, getAnomalyColor } from '@shared/anomaly';
 
 // Define window global to access Leaflet
 declare global {
@@ -58,26 +65,55 @@ export const createMap = (container: HTMLElement, baseMapType: string) => {
   return map;
 };
 
+// Labels from custom schemes and names from the provider's region files are
+// not ours, so they are escaped before going into popup and legend markup
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// Regions that could not be classified: no observations or too few baseline years
+const NO_CATEGORY_COLOR = '#9ca3af';
+
+// One-line summary of the imagery behind a result, for popups and tooltips
+export const describeQuality = ({ scenes, acquisitionDates, validFraction, stdDev }: DataQuality) => {
+  const dates = acquisitionDates.length > 1
+    ? ` (${acquisitionDates[0]} – ${acquisitionDates[acquisitionDates.length - 1]})`
+    : acquisitionDates.length === 1 ? ` (${acquisitionDates[0]})` : '';
+  const spread = stdDev != null ? `, σ ${stdDev.toFixed(3)}` : '';
+  return `${scenes} scene${scenes === 1 ? '' : 's'}${dates}, ${Math.round(validFraction * 100)}% valid pixels${spread}`;
+};
+
+export const getClassColor = (scheme: ClassificationScheme | undefined, category?: string) =>
+  scheme?.classes.find(({ id }) => id === category)?.color;
+
+// Put a layer's raster tiles under its region polygons and hide their fill,
+// so the map shows pixel detail while the regions still open their popups
+const withRasterTiles = (map: any, regionLayer: any, tileUrl: string | undefined, opacity: number) => {
+  const L = getL();
+  if (!L || !tileUrl) return regionLayer;
+
+  regionLayer.setStyle({ fillOpacity: 0 });
+  const tiles = L.tileLayer(tileUrl, { opacity, maxZoom: 19 });
+  return L.layerGroup([tiles, regionLayer]).addTo(map);
+};
+
 // Add soil moisture layer to the map
-export const addSoilMoistureLayer = (map: any, data: SoilMoistureData[], opacity: number) => {
+export const addSoilMoistureLayer = (
+  map: any,
+  data: SoilMoistureResult[],
+  opacity: number,
+  index: MoistureIndex,
+  scheme?: ClassificationScheme,
+  tileUrl?: string
+) => {
   // Get Leaflet instance
   const L = getL();
   if (!L) return null;
   
-  // Create a color scale function
-  const getColor = (value: number) => {
-    if (value > 0.55) return '#2b83ff'; // Very Wet - Blue
-    if (value > 0.45) return '#3bb543'; // Wet - Green
-    if (value > 0.35) return '#edd832'; // Normal - Yellow
-    if (value > 0.25) return '#ff5733'; // Dry - Orange
-    return '#ff0000'; // Very Dry - Red
-  };
-  
   // Create a GeoJSON layer for soil moisture
   const soilMoistureLayer = L.geoJSON([], {
     style: (feature: any) => {
       return {
-        fillColor: getColor(feature.properties.value),
+        fillColor: getClassColor(scheme, feature.properties.category) ?? NO_CATEGORY_COLOR,
         weight: 1,
         opacity: 0.7,
         color: 'white',
@@ -85,12 +121,18 @@ export const addSoilMoistureLayer = (map: any, data: SoilMoistureData[], opacity
       };
     },
     onEachFeature: (feature: any, layer: any) => {
-      const { region, value, status } = feature.properties;
+      const { region, value, status, maskedFraction, quality } = feature.properties;
       layer.bindPopup(`
         <div class="p-2">
-          <div class="font-bold">${region}</div>
-          <div>Soil Moisture Index: ${value.toFixed(2)}</div>
-          <div>Status: ${status}</div>
+          <div class="font-bold">${escapeHtml(region)}</div>
+          <div>${index}: ${value !== null ? `${value.toFixed(2)}${moistureIndexInfo[index].units ? ` ${moistureIndexInfo[index].units}` : ''}` : 'No data'}</div>
+          <div>Status: ${escapeHtml(status)}</div>
+          ${maskedFraction != null ? `<div>Masked (cloud/snow): ${Math.round(maskedFraction * 100)}%</div>` : ''}
+          ${quality ? `
+            <div>Confidence: <span class="capitalize${quality.confidence === 'low' ? ' text-red-600 font-medium' : ''}">${quality.confidence}</span></div>
+            <div class="text-xs text-gray-600">${describeQuality(quality)}</div>
+            ${quality.issues.length > 0 ? `<div class="text-xs text-red-600">Low quality: ${quality.issues.join(', ')}</div>` : ''}
+          ` : ''}
         </div>
       `);
     }
@@ -105,11 +147,14 @@ export const addSoilMoistureLayer = (map: any, data: SoilMoistureData[], opacity
         properties: { 
           region: item.region, 
           value: item.value, 
-          status: item.status 
+          status: item.status,
+          category: item.category,
+          maskedFraction: item.maskedFraction,
+          quality: item.quality
         },
-        // Use the geojson field directly if it's available in the data
-        geometry: typeof item.geojson === 'object' ? item.geojson : {
-          // Fallback polygon if geojson isn't available
+        // Use the region geometry directly if it's available in the data
+        geometry: typeof item.geometry === 'object' ? item.geometry : {
+          // Fallback polygon if the geometry isn't available
           type: "Polygon",
           coordinates: [
             [
@@ -130,7 +175,215 @@ export const addSoilMoistureLayer = (map: any, data: SoilMoistureData[], opacity
     });
   }
   
-  return soilMoistureLayer;
+  return withRasterTiles(map, soilMoistureLayer, tileUrl, opacity);
+};
+
+// Add the accumulated precipitation layer
+export const addPrecipitationLayer = (
+  map: any,
+  precipitation: PrecipitationResponse,
+  opacity: number
+) => {
+  const L = getL();
+  if (!L) return null;
+
+  const precipitationLayer = L.geoJSON([], {
+    style: (feature: any) => ({
+      fillColor: getPrecipitationColor(feature.properties.total, precipitation.range),
+      weight: 1,
+      opacity: 0.7,
+      color: 'white',
+      fillOpacity: opacity
+    }),
+    onEachFeature: (feature: any, layer: any) => {
+      const { region, total } = feature.properties;
+      layer.bindPopup(`
+        <div class="p-2">
+          <div class="font-bold">${escapeHtml(region)}</div>
+          <div>Precipitation: ${total.toFixed(0)} mm</div>
+        </div>
+      `);
+    }
+  }).addTo(map);
+
+  precipitationLayer.addData({
+    type: "FeatureCollection",
+    features: precipitation.data.map(({ region, total, geometry }) => ({
+      type: "Feature",
+      properties: { region, total },
+      geometry
+    }))
+  });
+
+  return withRasterTiles(map, precipitationLayer, precipitation.tileUrl, opacity);
+};
+
+// Add the land cover layer, colored by each region's dominant class where no
+// raster is available
+export const addLandCoverLayer = (map: any, landCover: LandCoverResponse, opacity: number) => {
+  const L = getL();
+  if (!L) return null;
+
+  const landCoverLayer = L.geoJSON([], {
+    style: (feature: any) => ({
+      fillColor: landCoverClasses[feature.properties.dominant as LandCoverCode].color,
+      weight: 1,
+      opacity: 0.7,
+      color: 'white',
+      fillOpacity: opacity
+    }),
+    onEachFeature: (feature: any, layer: any) => {
+      const { region, fractions } = feature.properties;
+      const shares = (Object.entries(fractions) as [string, number][])
+        .sort(([, a], [, b]) => b - a)
+        .map(([code, fraction]) =>
+          `<div>${landCoverClasses[Number(code) as LandCoverCode].label}: ${Math.round(fraction * 100)}%</div>`
+        )
+        .join('');
+      layer.bindPopup(`
+        <div class="p-2">
+          <div class="font-bold">${escapeHtml(region)}</div>
+          ${shares}
+        </div>
+      `);
+    }
+  }).addTo(map);
+
+  landCoverLayer.addData({
+    type: "FeatureCollection",
+    features: landCover.data.map(({ region, geometry, fractions, dominant }) => ({
+      type: "Feature",
+      properties: { region, fractions, dominant },
+      geometry
+    }))
+  });
+
+  return withRasterTiles(map, landCoverLayer, landCover.tileUrl, opacity);
+};
+
+// Add the trend slope layer; regions without a significant trend are left
+// unfilled, like the pixels of the slope raster
+export const addTrendLayer = (map: any, analysis: TrendAnalysisResponse, opacity: number) => {
+  const L = getL();
+  if (!L) return null;
+
+  const units = moistureIndexInfo[analysis.index].units;
+  const trendLayer = L.geoJSON([], {
+    style: (feature: any) => ({
+      fillColor: getSlopeColor(feature.properties.slope, analysis.index, analysis.slopeRange),
+      weight: 1,
+      opacity: 0.7,
+      color: 'white',
+      fillOpacity: feature.properties.significant ? opacity : 0
+    }),
+    onEachFeature: (feature: any, layer: any) => {
+      const { region, slope, pValue, direction, n } = feature.properties;
+      layer.bindPopup(`
+        <div class="p-2">
+          <div class="font-bold">${escapeHtml(region)}</div>
+          <div>Sen's slope: ${slope >= 0 ? '+' : ''}${slope.toFixed(4)}${units ? ` ${units}` : ''}/yr</div>
+          <div>Mann–Kendall p: ${pValue.toFixed(3)} (${n} periods)</div>
+          <div>Trend: ${direction === 'none' ? 'not significant' : direction}</div>
+        </div>
+      `);
+    }
+  }).addTo(map);
+
+  trendLayer.addData({
+    type: "FeatureCollection",
+    features: analysis.regions.map(({ geometry, ...properties }) => ({
+      type: "Feature",
+      properties,
+      geometry
+    }))
+  });
+
+  return withRasterTiles(map, trendLayer, analysis.tileUrl, opacity);
+};
+
+// Formatted area in km²
+const formatArea = (km2: number) => `${Math.round(km2).toLocaleString()} km²`;
+
+// Regions in the color of their difference between the two windows, outlined
+// more strongly where the change is significant
+export const addChangeLayer = (map: any, analysis: ChangeAnalysisResponse, opacity: number) => {
+  const L = getL();
+  if (!L) return null;
+
+  const units = moistureIndexInfo[analysis.index].units;
+  const changeLayer = L.geoJSON([], {
+    style: (feature: any) => ({
+      fillColor: getDifferenceColor(feature.properties.difference, analysis.index, analysis.differenceRange),
+      weight: feature.properties.significant ? 2 : 1,
+      opacity: 0.7,
+      color: feature.properties.significant ? '#333' : 'white',
+      fillOpacity: opacity
+    }),
+    onEachFeature: (feature: any, layer: any) => {
+      const { region, difference, pValue, direction, nBefore, nAfter, area } = feature.properties;
+      layer.bindPopup(`
+        <div class="p-2">
+          <div class="font-bold">${escapeHtml(region)}</div>
+          <div>Difference: ${difference >= 0 ? '+' : ''}${difference.toFixed(3)}${units ? ` ${units}` : ''}</div>
+          <div>p: ${pValue.toFixed(3)} (${nBefore} vs ${nAfter} periods)</div>
+          <div>Change: ${direction === 'none' ? 'not significant' : direction}</div>
+          <div>Significant wetting: ${formatArea(area.wetting)}</div>
+          <div>Significant drying: ${formatArea(area.drying)}</div>
+        </div>
+      `);
+    }
+  }).addTo(map);
+
+  changeLayer.addData({
+    type: "FeatureCollection",
+    features: analysis.regions.map(({ geometry, ...properties }) => ({
+      type: "Feature",
+      properties,
+      geometry
+    }))
+  });
+
+  return withRasterTiles(map, changeLayer, analysis.tileUrl, opacity);
+};
+
+// Regions whose window as a whole is beyond the threshold, in the color of
+// its z-score
+export const addAnomalyLayer = (map: any, analysis: AnomalyAnalysisResponse, opacity: number) => {
+  const L = getL();
+  if (!L) return null;
+
+  const anomalyLayer = L.geoJSON([], {
+    style: (feature: any) => ({
+      fillColor: getAnomalyColor(feature.properties.zScore ?? 0, analysis.index),
+      weight: 1,
+      opacity: 0.7,
+      color: 'white',
+      fillOpacity: feature.properties.direction !== 'none' ? opacity : 0
+    }),
+    onEachFeature: (feature: any, layer: any) => {
+      const { region, zScore, direction, events } = feature.properties;
+      const wet = events.filter(({ type }: any) => type === 'wet').length;
+      layer.bindPopup(`
+        <div class="p-2">
+          <div class="font-bold">${escapeHtml(region)}</div>
+          <div>Window anomaly: ${zScore === undefined ? 'no baseline' : `${zScore >= 0 ? '+' : ''}${zScore.toFixed(2)} σ`}</div>
+          <div>Window: ${direction === 'none' ? 'within' : direction} ±${analysis.threshold} σ</div>
+          <div>Events: ${wet} wet, ${events.length - wet} dry</div>
+        </div>
+      `);
+    }
+  }).addTo(map);
+
+  anomalyLayer.addData({
+    type: "FeatureCollection",
+    features: analysis.regions.map(({ geometry, ...properties }) => ({
+      type: "Feature",
+      properties,
+      geometry
+    }))
+  });
+
+  return withRasterTiles(map, anomalyLayer, analysis.tileUrl, opacity);
 };
 
 // Add administrative boundaries
@@ -152,7 +405,7 @@ export const addAdminBoundaries = (map: any, regions: any[]) => {
     style: adminStyle,
     onEachFeature: (feature: any, layer: any) => {
       if (feature.properties && feature.properties.name) {
-        layer.bindTooltip(feature.properties.name, {
+        layer.bindTooltip(escapeHtml(feature.properties.name), {
           permanent: false,
           direction: 'center'
         });
@@ -171,8 +424,9 @@ export const addAdminBoundaries = (map: any, regions: any[]) => {
   return adminLayer;
 };
 
-// Add a legend to the map
-export const setupLegend = (map: any) => {
+// Add the legend of the classification scheme the results were classified
+// with; ranges are percentiles or index values depending on its basis
+export const setupLegend = (map: any, index: MoistureIndex, scheme: ClassificationScheme) => {
   // Get Leaflet instance
   const L = getL();
   if (!L) return null;
@@ -181,19 +435,25 @@ export const setupLegend = (map: any) => {
   
   legend.onAdd = function(map: any) {
     const div = L.DomUtil.create('div', 'legend bg-white p-2 rounded-md shadow-md');
-    const grades = [0.55, 0.45, 0.35, 0.25, 0.15];
-    const labels = ['Very Wet', 'Wet', 'Normal', 'Dry', 'Very Dry'];
-    const colors = ['#2b83ff', '#3bb543', '#edd832', '#ff5733', '#ff0000'];
     
-    div.innerHTML = '<div class="text-xs font-medium mb-1">Soil Moisture Index</div>';
+    const basis = scheme.basis === 'percentile' ? `${index} percentile` : index;
+    div.innerHTML = `<div class="text-xs font-medium mb-1">${escapeHtml(scheme.label)} (${basis})</div>`;
     
-    for (let i = 0; i < grades.length; i++) {
+    // Wettest first
+    for (let position = scheme.classes.length - 1; position >= 0; position--) {
+      const { label, color } = scheme.classes[position];
       div.innerHTML +=
         '<div class="flex items-center mb-1">' +
-        `<div style="background:${colors[i]}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
-        `<span class="text-xs">${labels[i]} (${grades[i]}+)</span>` +
+        `<div style="background:${color}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+        `<span class="text-xs">${escapeHtml(label)} (${classRange(scheme, index, position)})</span>` +
         '</div>';
     }
+
+    div.innerHTML +=
+      '<div class="flex items-center mb-1">' +
+      `<div style="background:${NO_CATEGORY_COLOR}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+      '<span class="text-xs">No data / unclassified</span>' +
+      '</div>';
     
     return div;
   };
@@ -201,3 +461,157 @@ export const setupLegend = (map: any) => {
   legend.addTo(map);
   return legend;
 };
+
+// Add a legend for the accumulated precipitation layer
+export const setupPrecipitationLegend = (map: any, [min, max]: [number, number]) => {
+  const L = getL();
+  if (!L) return null;
+
+  const legend = L.control({position: 'bottomleft'});
+
+  legend.onAdd = function() {
+    const div = L.DomUtil.create('div', 'legend bg-white p-2 rounded-md shadow-md');
+    const step = (max - min) / PRECIPITATION_PALETTE.length;
+
+    div.innerHTML = '<div class="text-xs font-medium mb-1">Precipitation (mm)</div>';
+
+    PRECIPITATION_PALETTE.forEach((color, i) => {
+      const from = Math.round(min + i * step);
+      const bound = i === PRECIPITATION_PALETTE.length - 1 ? `${from}+` : `${from}–${Math.round(from + step)}`;
+      div.innerHTML +=
+        '<div class="flex items-center mb-1">' +
+        `<div style="background:${color}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+        `<span class="text-xs">${bound}</span>` +
+        '</div>';
+    });
+
+    return div;
+  };
+
+  legend.addTo(map);
+  return legend;
+};
+
+// Add a categorical legend for the land cover layer
+export const setupLandCoverLegend = (map: any) => {
+  const L = getL();
+  if (!L) return null;
+
+  const legend = L.control({position: 'topright'});
+
+  legend.onAdd = function() {
+    const div = L.DomUtil.create('div', 'legend bg-white p-2 rounded-md shadow-md');
+
+    div.innerHTML = '<div class="text-xs font-medium mb-1">Land Cover (ESA WorldCover)</div>';
+
+    for (const { label, color } of Object.values(landCoverClasses)) {
+      div.innerHTML +=
+        '<div class="flex items-center mb-1">' +
+        `<div style="background:${color}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+        `<span class="text-xs">${label}</span>` +
+        '</div>';
+    }
+
+    return div;
+  };
+
+  legend.addTo(map);
+  return legend;
+};
+
+// Add a diverging legend for the trend slope layer, drying to wetting
+export const setupTrendLegend = (map: any, analysis: TrendAnalysisResponse) => {
+  const L = getL();
+  if (!L) return null;
+
+  const legend = L.control({position: 'topright'});
+
+  legend.onAdd = function() {
+    const div = L.DomUtil.create('div', 'legend bg-white p-2 rounded-md shadow-md');
+    const [min, max] = analysis.slopeRange;
+    const step = (max - min) / SLOPE_PALETTE.length;
+    const format = (value: number) => `${value >= 0 ? '+' : ''}${Number(value.toPrecision(2))}`;
+
+    div.innerHTML = `<div class="text-xs font-medium mb-1">${analysis.index} trend per year (p &lt; ${analysis.alpha})</div>`;
+
+    // Wetting first
+    [...SLOPE_PALETTE].reverse().forEach((color, i) => {
+      const to = max - i * step;
+      div.innerHTML +=
+        '<div class="flex items-center mb-1">' +
+        `<div style="background:${color}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+        `<span class="text-xs">${format(to - step)} to ${format(to)}</span>` +
+        '</div>';
+    });
+    div.innerHTML += '<div class="text-xs text-gray-500">Wetting on top; blank where not significant</div>';
+
+    return div;
+  };
+
+  legend.addTo(map);
+  return legend;
+};
+
+export const setupChangeLegend = (map: any, analysis: ChangeAnalysisResponse) => {
+  const L = getL();
+  if (!L) return null;
+
+  const legend = L.control({position: 'topright'});
+
+  legend.onAdd = function() {
+    const div = L.DomUtil.create('div', 'legend bg-white p-2 rounded-md shadow-md');
+    const [min, max] = analysis.differenceRange;
+    const step = (max - min) / CHANGE_PALETTE.length;
+    const format = (value: number) => `${value >= 0 ? '+' : ''}${Number(value.toPrecision(2))}`;
+
+    div.innerHTML = `<div class="text-xs font-medium mb-1">${analysis.index} change since ${analysis.before.startDate}</div>`;
+
+    // Wetting first
+    [...CHANGE_PALETTE].reverse().forEach((color, i) => {
+      const to = max - i * step;
+      div.innerHTML +=
+        '<div class="flex items-center mb-1">' +
+        `<div style="background:${color}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+        `<span class="text-xs">${format(to - step)} to ${format(to)}</span>` +
+        '</div>';
+    });
+    div.innerHTML += `<div class="text-xs text-gray-500">Wetting on top; outlined where p &lt; ${analysis.alpha}</div>`;
+
+    return div;
+  };
+
+  legend.addTo(map);
+  return legend;
+};
+
+export const setupAnomalyLegend = (map: any, analysis: AnomalyAnalysisResponse) => {
+  const L = getL();
+  if (!L) return null;
+
+  const legend = L.control({position: 'topright'});
+
+  legend.onAdd = function() {
+    const div = L.DomUtil.create('div', 'legend bg-white p-2 rounded-md shadow-md');
+    const [min, max] = ANOMALY_RANGE;
+    const step = (max - min) / ANOMALY_PALETTE.length;
+    const format = (value: number) => `${value >= 0 ? '+' : ''}${Number(value.toPrecision(2))}`;
+
+    div.innerHTML = `<div class="text-xs font-medium mb-1">${analysis.index} anomaly (σ, ${analysis.baseline.startYear}–${analysis.baseline.endYear})</div>`;
+
+    // Wet first
+    [...ANOMALY_PALETTE].reverse().forEach((color, i) => {
+      const to = max - i * step;
+      div.innerHTML +=
+        '<div class="flex items-center mb-1">' +
+        `<div style="background:${color}; width:18px; height:18px; margin-right:8px; opacity:0.7"></div>` +
+        `<span class="text-xs">${format(to - step)} to ${format(to)}</span>` +
+        '</div>';
+    });
+    div.innerHTML += `<div class="text-xs text-gray-500">Wet on top; blank within ±${analysis.threshold} σ</div>`;
+
+    return div;
+  };
+
+  legend.addTo(map);
+  return legend;
+};
@@ -2,8 +2,17 @@ import React from 'react';
 import Sidebar from '@/components/Sidebar';
 import MapContainer from '@/components/MapContainer';
 import DataVisualization from '@/components/DataVisualization';
-import { SoilMoistureQuery } from '@shared/schema';
+import { AnalysisRequest, SoilMoistureQuery } from '@shared/schema';
+import { regionTopic } from '@shared/live';
+import { DEFAULT_INDEX, MoistureIndex } from '@shared/indices';
+import { LandCoverCode } from '@shared/landCover';
+import { DEFAULT_SCHEME } from '@shared/classification';
+import { GapFillMethod, SmoothingMethod } from '@shared/trends';
 import useEarthEngineData from '@/hooks/useEarthEngineData';
+import usePrecipitationData from '@/hooks/usePrecipitationData';
+import useLandCoverData from '@/hooks/useLandCoverData';
+import useAnalysisJob from '@/hooks/useAnalysisJob';
+import useLiveUpdates from '@/hooks/useLiveUpdates';
 import { useToast } from '@/hooks/use-toast';
 
 const Home: React.FC = () => {
@@ -18,8 +27,23 @@ const Home: React.FC = () => {
     timeStep: 'weekly'
   });
 
+  // Earlier window that change detection compares the time frame against
+  const [beforeRange, setBeforeRange] = React.useState({
+    startDate: '2022-01-01',
+    endDate: '2022-11-30'
+  });
+
+  // Standard deviations from the baseline that count as an anomaly
+  const [anomalyThreshold, setAnomalyThreshold] = React.useState<number>(2);
+
   const [selectedRegion, setSelectedRegion] = React.useState<string>('entire');
   const [analysisType, setAnalysisType] = React.useState<string>('average');
+  const [index, setIndex] = React.useState<MoistureIndex>(DEFAULT_INDEX);
+  const [reference, setReference] = React.useState<MoistureIndex | 'none'>('none');
+  const [landCover, setLandCover] = React.useState<LandCoverCode[]>([]);
+  const [scheme, setScheme] = React.useState<string>(DEFAULT_SCHEME);
+  const [gapFill, setGapFill] = React.useState<GapFillMethod>('none');
+  const [smoothing, setSmoothing] = React.useState<SmoothingMethod>('none');
   const [layers, setLayers] = React.useState({
     soilMoisture: true,
     rainfall: false,
@@ -33,7 +57,13 @@ const Home: React.FC = () => {
     startDate: dateRange.startDate,
     endDate: dateRange.endDate,
     timeStep: dateRange.timeStep,
-    region: selectedRegion !== 'entire' ? selectedRegion : undefined
+    region: selectedRegion !== 'entire' ? selectedRegion : undefined,
+    index,
+    reference: reference !== 'none' && reference !== index ? reference : undefined,
+    landCover: landCover.length > 0 ? landCover : undefined,
+    scheme: scheme !== DEFAULT_SCHEME ? scheme : undefined,
+    gapFill: gapFill !== 'none' ? gapFill : undefined,
+    smoothing: smoothing !== 'none' ? smoothing : undefined
   };
 
   const { 
@@ -43,6 +73,78 @@ const Home: React.FC = () => {
     refetch 
   } = useEarthEngineData(query);
 
+  // Reload when new imagery of the shown index arrives for a shown region
+  // within the shown window
+  useLiveUpdates(
+    (soilMoistureData?.data ?? []).map(({ region }) => regionTopic(region)),
+    (message) => {
+      if (
+        message.type === 'data' &&
+        message.index === soilMoistureData?.index &&
+        message.date >= query.startDate &&
+        message.date <= query.endDate
+      ) {
+        refetch();
+      }
+    }
+  );
+
+  const { data: precipitationData } = usePrecipitationData(
+    {
+      startDate: query.startDate,
+      endDate: query.endDate,
+      timeStep: query.timeStep,
+      region: query.region
+    },
+    layers.rainfall
+  );
+
+  const { data: landCoverData } = useLandCoverData({ region: query.region }, layers.landcover);
+
+  const analysisJob = useAnalysisJob();
+  // The job last run from the sidebar is shown only while the settings it was
+  // run with are unchanged, so results always match the sidebar. Partial
+  // results are shown while it runs and kept when it is cancelled.
+  const analysisInputs = JSON.stringify([query, beforeRange, anomalyThreshold]);
+  const [jobInputs, setJobInputs] = React.useState<string | null>(null);
+  const job = analysisJob.job;
+  const analysisResult = jobInputs === analysisInputs ? job?.result ?? job?.partial : undefined;
+
+  React.useEffect(() => {
+    if (job?.status === 'failed') {
+      toast({
+        title: "Analysis failed",
+        description: job.error,
+        variant: "destructive",
+      });
+    }
+  }, [job?.status]);
+
+  const averageResult = analysisResult?.type === 'average' ? analysisResult.result : undefined;
+  const trendAnalysis = analysisResult?.type === 'trend' ? analysisResult.result : undefined;
+  const changeAnalysis = analysisResult?.type === 'change' ? analysisResult.result : undefined;
+  const anomalyAnalysis = analysisResult?.type === 'anomaly' ? analysisResult.result : undefined;
+  const displayedData = averageResult ?? soilMoistureData;
+
+  const buildAnalysisRequest = (): AnalysisRequest => {
+    switch (analysisType) {
+      case 'change':
+        return {
+          type: 'change',
+          ...query,
+          beforeStartDate: beforeRange.startDate,
+          beforeEndDate: beforeRange.endDate,
+          perPixel: true
+        };
+      case 'anomaly':
+        return { type: 'anomaly', ...query, threshold: anomalyThreshold, perPixel: true };
+      case 'trend':
+        return { type: 'trend', ...query, perPixel: true };
+      default:
+        return { type: 'average', ...query };
+    }
+  };
+
   // Initial data fetch when component mounts
   React.useEffect(() => {
     refetch();
@@ -57,7 +159,16 @@ const Home: React.FC = () => {
   };
 
   const handleRunAnalysis = () => {
-    refetch();
+    setJobInputs(analysisInputs);
+    analysisJob.submit(buildAnalysisRequest(), {
+      onError: (error) => {
+        toast({
+          title: "Analysis failed",
+          description: error.message,
+          variant: "destructive",
+        });
+      }
+    });
     toast({
       title: "Analysis started",
       description: `Running ${analysisType} analysis for ${selectedRegion === 'entire' ? 'the entire map' : selectedRegion}`,
@@ -84,29 +195,58 @@ const Home: React.FC = () => {
       <Sidebar 
         dateRange={dateRange}
         setDateRange={setDateRange}
+        beforeRange={beforeRange}
+        setBeforeRange={setBeforeRange}
+        anomalyThreshold={anomalyThreshold}
+        setAnomalyThreshold={setAnomalyThreshold}
         layers={layers}
         opacity={opacity}
         baseMap={baseMap}
         selectedRegion={selectedRegion}
         analysisType={analysisType}
+        index={index}
+        reference={reference}
+        landCover={landCover}
+        scheme={scheme}
+        gapFill={gapFill}
+        smoothing={smoothing}
         onLayerChange={handleLayerChange}
         onOpacityChange={handleOpacityChange}
         onBaseMapChange={handleBaseMapChange}
         onDateRangeApply={handleDateRangeApply}
         onRunAnalysis={handleRunAnalysis}
+        isAnalysisRunning={analysisJob.isRunning}
+        analysisProgress={analysisJob.isRunning ? job?.progress : undefined}
+        onCancelAnalysis={analysisJob.cancel}
         setSelectedRegion={setSelectedRegion}
         setAnalysisType={setAnalysisType}
+        setIndex={setIndex}
+        setReference={setReference}
+        setLandCover={setLandCover}
+        setScheme={setScheme}
+        setGapFill={setGapFill}
+        setSmoothing={setSmoothing}
       />
       <div className="flex-grow overflow-y-auto">
         <MapContainer 
-          soilMoistureData={soilMoistureData}
+          soilMoistureData={displayedData}
+          precipitationData={precipitationData}
+          landCoverData={landCoverData}
+          trendAnalysis={trendAnalysis}
+          changeAnalysis={changeAnalysis}
+          anomalyAnalysis={anomalyAnalysis}
           layers={layers}
           opacity={opacity / 100}
           baseMap={baseMap}
+          index={index}
           isLoading={isLoading}
         />
         <DataVisualization 
-          soilMoistureData={soilMoistureData}
+          soilMoistureData={displayedData}
+          precipitationData={layers.rainfall ? precipitationData : undefined}
+          trendAnalysis={trendAnalysis}
+          changeAnalysis={changeAnalysis}
+          anomalyAnalysis={anomalyAnalysis}
           isLoading={isLoading}
           isError={isError}
           timeStep={dateRange.timeStep}
@@ -0,0 +1,23 @@
+import crypto from "crypto";
+import type { NextFunction, Request, Response } from "express";
+
+const tokensMatch = (given: string, expected: string) => {
+  const a = Buffer.from(given);
+  const b = Buffer.from(expected);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+// Admin endpoints are only enabled when ADMIN_TOKEN is set, and then require
+// it in the X-Admin-Token header
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return res.status(403).json({ message: "Admin endpoints are disabled" });
+  }
+
+  if (!tokensMatch(req.get("X-Admin-Token") ?? "", token)) {
+    return res.status(401).json({ message: "Invalid admin token" });
+  }
+
+  next();
+}
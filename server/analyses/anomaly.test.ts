@@ -0,0 +1,95 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { SoilMoistureResponse, TrendPoint } from "@shared/schema";
+import { DEFAULT_THRESHOLD, detectAnomalies } from "./anomaly";
+
+const geometry = { type: "Polygon" as const, coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] };
+
+// Six months, January to June 2023
+const query = { startDate: "2023-01-01", endDate: "2023-06-30", timeStep: "monthly" as const };
+const months = ["2023-01-01", "2023-02-01", "2023-03-01", "2023-04-01", "2023-05-01", "2023-06-01"];
+
+// One point per month, leaving out the months without a value
+const monthly = (series: (number | undefined)[]): TrendPoint[] =>
+  months.flatMap((date, i) => (series[i] === undefined ? [] : [{ name: date, date, north: series[i] }]));
+
+const detect = (zScores: (number | undefined)[], index: SoilMoistureResponse["index"] = "NDMI") => {
+  const [region] = detectAnomalies(
+    {
+      index,
+      data: [{ region: "north", geometry }] as SoilMoistureResponse["data"],
+      // The value is the z-score shifted, so each peak's value is recognizable
+      trends: monthly(zScores.map((zScore) => (zScore === undefined ? undefined : 0.5 + zScore / 10))),
+      anomalies: monthly(zScores),
+    },
+    query,
+    DEFAULT_THRESHOLD,
+  );
+  return region.events;
+};
+
+describe("detectAnomalies", () => {
+  test("reports a run at the start of the series", () => {
+    assert.deepEqual(detect([-2.5, -3, 0, 0, 0, 0]), [
+      {
+        type: "dry",
+        startDate: "2023-01-01",
+        endDate: "2023-02-28",
+        periods: 2,
+        peakDate: "2023-02-01",
+        peakZScore: -3,
+        peakValue: 0.2,
+      },
+    ]);
+  });
+
+  test("reports a run still going at the end of the series", () => {
+    const [event] = detect([0, 0, 0, 0, 2.1, 2.4]);
+    assert.equal(event.type, "wet");
+    assert.equal(event.startDate, "2023-05-01");
+    assert.equal(event.endDate, "2023-06-30");
+    assert.equal(event.periods, 2);
+    assert.equal(event.peakZScore, 2.4);
+  });
+
+  test("reports a single period as an event of its own", () => {
+    assert.deepEqual(detect([0, 0, 2, 0, 0, 0]), [
+      {
+        type: "wet",
+        startDate: "2023-03-01",
+        endDate: "2023-03-31",
+        periods: 1,
+        peakDate: "2023-03-01",
+        peakZScore: 2,
+        peakValue: 0.7,
+      },
+    ]);
+  });
+
+  test("splits a wet run followed directly by a dry one", () => {
+    const events = detect([0, 2.2, 2.6, -2.1, -2.9, 0]);
+    assert.deepEqual(
+      events.map(({ type, startDate, endDate, periods }) => ({ type, startDate, endDate, periods })),
+      [
+        { type: "wet", startDate: "2023-02-01", endDate: "2023-03-31", periods: 2 },
+        { type: "dry", startDate: "2023-04-01", endDate: "2023-05-31", periods: 2 },
+      ],
+    );
+  });
+
+  test("ends a run at a period without a z-score", () => {
+    const events = detect([2.5, undefined, 2.5, 0, 0, 0]);
+    assert.deepEqual(events.map(({ startDate, periods }) => ({ startDate, periods })), [
+      { startDate: "2023-01-01", periods: 1 },
+      { startDate: "2023-03-01", periods: 1 },
+    ]);
+  });
+
+  test("calls high values dry for an index where higher is drier", () => {
+    assert.deepEqual(detect([0, 0, 3, 0, 0, 0], "TVDI").map(({ type }) => type), ["dry"]);
+  });
+
+  test("finds nothing within the threshold", () => {
+    assert.deepEqual(detect([1.9, -1.9, 0, 1, -1, 0]), []);
+  });
+});
@@ -0,0 +1,82 @@
+import { moistureIndexInfo } from "@shared/indices";
+import type { AnomalyEvent, RegionAnomaly, SoilMoistureQuery, SoilMoistureResponse } from "@shared/schema";
+import { buildPeriods } from "../periods";
+
+// Anomalous events from the provider's per-period z-scores against the
+// climatology: runs of consecutive periods beyond the threshold on the same
+// side. A period without a z-score (no acquisitions or too few baseline
+// years) ends an event.
+
+export const DEFAULT_THRESHOLD = 2;
+
+const dayBefore = (date: string) => {
+  const previous = new Date(`${date}T00:00:00Z`);
+  previous.setUTCDate(previous.getUTCDate() - 1);
+  return previous.toISOString().slice(0, 10);
+};
+
+export function detectAnomalies(
+  { index, data, trends, anomalies }: Pick<SoilMoistureResponse, "index" | "data" | "trends" | "anomalies">,
+  { startDate, endDate, timeStep }: Pick<SoilMoistureQuery, "startDate" | "endDate" | "timeStep">,
+  threshold: number,
+): RegionAnomaly[] {
+  const { wetIsHigh } = moistureIndexInfo[index];
+  const side = (zScore: number): AnomalyEvent["type"] | undefined =>
+    Math.abs(zScore) < threshold ? undefined : (zScore > 0) === wetIsHigh ? "wet" : "dry";
+
+  const periods = buildPeriods(startDate, endDate, timeStep);
+  const positions = new Map(periods.map(({ start }, i) => [start, i]));
+  const values = new Map(trends.map((point) => [point.date, point]));
+
+  return data.map(({ region, geometry, climatology }) => {
+    // Events with the position of their last period
+    const events: (AnomalyEvent & { last: number })[] = [];
+    let current: (typeof events)[number] | undefined;
+
+    for (const point of anomalies) {
+      const zScore = point[region];
+      const position = positions.get(point.date);
+      if (typeof zScore !== "number" || position === undefined) continue;
+
+      const type = side(zScore);
+      if (current && (type !== current.type || position !== current.last + 1)) {
+        events.push(current);
+        current = undefined;
+      }
+      if (!type) continue;
+
+      // z-scores only exist for observed values
+      const value = values.get(point.date)?.[region] as number;
+      if (!current) {
+        current = {
+          type,
+          startDate: point.date,
+          endDate: point.date,
+          periods: 0,
+          peakDate: point.date,
+          peakZScore: zScore,
+          peakValue: value,
+          last: position,
+        };
+      }
+      current.endDate = dayBefore(periods[position].end);
+      current.periods++;
+      current.last = position;
+      if (Math.abs(zScore) > Math.abs(current.peakZScore)) {
+        current.peakDate = point.date;
+        current.peakZScore = zScore;
+        current.peakValue = value;
+      }
+    }
+    if (current) events.push(current);
+
+    const zScore = climatology?.zScore;
+    return {
+      region,
+      geometry,
+      zScore,
+      direction: zScore === undefined ? "none" : side(zScore) ?? "none",
+      events: events.map(({ last, ...event }) => event),
+    };
+  });
+}
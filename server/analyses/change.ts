@@ -0,0 +1,89 @@
+import { moistureIndexInfo } from "@shared/indices";
+import type {
+  ChangeAnalysisQuery,
+  ChangeArea,
+  RegionChange,
+  RegionGeometry,
+  SoilMoistureQuery,
+  SoilMoistureResponse,
+  TrendPoint,
+} from "@shared/schema";
+import { UnsupportedQueryError } from "../errors";
+import { welchTest } from "../statistics";
+
+// Change between two windows: the difference of each region's composites,
+// tested with Welch's statistic over the observed periods of either window
+
+// The soil moisture query of each window; the query's own window is the
+// later one, and trend processing does not apply
+export function changeWindowQueries(query: ChangeAnalysisQuery): { before: SoilMoistureQuery; after: SoilMoistureQuery } {
+  const { beforeStartDate, beforeEndDate, alpha, perPixel, reference, gapFill, smoothing, smoothingWindow, ...after } = query;
+  if (beforeStartDate > beforeEndDate) {
+    throw new UnsupportedQueryError(`Before window start ${beforeStartDate} is after its end ${beforeEndDate}`);
+  }
+  if (beforeEndDate >= after.startDate) {
+    throw new UnsupportedQueryError(`The before window must end before ${after.startDate}`);
+  }
+  return { before: { ...after, startDate: beforeStartDate, endDate: beforeEndDate }, after };
+}
+
+const observedValues = (trends: TrendPoint[], region: string) =>
+  trends.flatMap((point) => (typeof point[region] === "number" ? [point[region] as number] : []));
+
+export function analyzeRegionChanges(
+  before: Pick<SoilMoistureResponse, "data" | "trends">,
+  after: Pick<SoilMoistureResponse, "index" | "data" | "trends">,
+  alpha: number,
+): Omit<RegionChange, "area">[] {
+  const { wetIsHigh } = moistureIndexInfo[after.index];
+
+  return after.data.flatMap(({ region, geometry, value }) => {
+    const earlier = before.data.find((result) => result.region === region);
+    if (!earlier || earlier.value === null || value === null) return [];
+
+    const beforeValues = observedValues(before.trends, region);
+    const afterValues = observedValues(after.trends, region);
+    const { t, pValue } = welchTest(beforeValues, afterValues);
+    const difference = value - earlier.value;
+    const significant = pValue < alpha && difference !== 0;
+    const wetting = wetIsHigh ? difference > 0 : difference < 0;
+
+    return [{
+      region,
+      geometry,
+      before: earlier.value,
+      after: value,
+      difference,
+      nBefore: beforeValues.length,
+      nAfter: afterValues.length,
+      t,
+      pValue,
+      significant,
+      direction: !significant ? "none" : wetting ? "wetting" : "drying",
+    }];
+  });
+}
+
+const EARTH_RADIUS_KM = 6371.0088;
+
+const ringArea = (ring: number[][]) => {
+  let total = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    const [lon1, lat1] = ring[i].map((degrees) => (degrees * Math.PI) / 180);
+    const [lon2, lat2] = ring[i + 1].map((degrees) => (degrees * Math.PI) / 180);
+    total += (lon2 - lon1) * (Math.sin(lat1) + Math.sin(lat2));
+  }
+  return Math.abs((total * EARTH_RADIUS_KM ** 2) / 2);
+};
+
+// Area of a region on a sphere in km², exact for regions bounded by
+// meridians and parallels
+export const geometryArea = ({ coordinates: [outer, ...holes] }: RegionGeometry) =>
+  ringArea(outer) - holes.reduce((sum, hole) => sum + ringArea(hole), 0);
+
+// Totals of the regions' areas
+export const sumAreas = (areas: ChangeArea[]): Omit<ChangeArea, "region"> => ({
+  total: areas.reduce((sum, { total }) => sum + total, 0),
+  wetting: areas.reduce((sum, { wetting }) => sum + wetting, 0),
+  drying: areas.reduce((sum, { drying }) => sum + drying, 0),
+});
@@ -0,0 +1,56 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { SoilMoistureResponse, TrendPoint } from "@shared/schema";
+import { analyzeRegionTrends, DEFAULT_ALPHA } from "./trend";
+
+const geometry = { type: "Polygon" as const, coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] };
+
+// One point per year, 2015–2024
+const yearly = (values: Record<string, number[]>): TrendPoint[] =>
+  Array.from({ length: 10 }, (_, i) => {
+    const date = `${2015 + i}-01-01`;
+    const point: TrendPoint = { name: date, date };
+    Object.entries(values).forEach(([region, series]) => {
+      if (series[i] !== undefined) point[region] = series[i];
+    });
+    return point;
+  });
+
+const analyze = (index: SoilMoistureResponse["index"], trends: TrendPoint[], regions: string[]) =>
+  analyzeRegionTrends(
+    { index, trends, data: regions.map((region) => ({ region, geometry })) as SoilMoistureResponse["data"] },
+    "2015-01-01",
+    DEFAULT_ALPHA,
+  );
+
+describe("analyzeRegionTrends", () => {
+  const rising = [0.1, 0.12, 0.15, 0.14, 0.18, 0.2, 0.22, 0.21, 0.25, 0.28];
+
+  test("reports a significant rise as wetting for an index where higher is wetter", () => {
+    const [trend] = analyze("NDMI", yearly({ north: rising }), ["north"]);
+
+    assert.equal(trend.n, 10);
+    assert.equal(trend.significant, true);
+    assert.equal(trend.direction, "wetting");
+    assert.ok(trend.slope > 0.015 && trend.slope < 0.025);
+  });
+
+  test("reports the same rise as drying for an index where higher is drier", () => {
+    const [trend] = analyze("TVDI", yearly({ north: rising }), ["north"]);
+    assert.equal(trend.direction, "drying");
+  });
+
+  test("reports no direction without a significant trend", () => {
+    const [trend] = analyze("NDMI", yearly({ north: [0.2, 0.3, 0.2, 0.3, 0.2, 0.3, 0.2, 0.3, 0.2, 0.3] }), ["north"]);
+    assert.equal(trend.significant, false);
+    assert.equal(trend.direction, "none");
+  });
+
+  test("tests only the periods a region was observed in", () => {
+    const [, sparse] = analyze("NDMI", yearly({ north: rising, south: [0.3] }), ["north", "south"]);
+    assert.equal(sparse.n, 1);
+    assert.equal(sparse.slope, 0);
+    assert.equal(sparse.intercept, 0.3);
+    assert.equal(sparse.direction, "none");
+  });
+});
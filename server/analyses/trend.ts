@@ -0,0 +1,47 @@
+import { moistureIndexInfo } from "@shared/indices";
+import type { RegionTrend, SoilMoistureResponse } from "@shared/schema";
+import { yearsSince } from "@shared/trends";
+import { mannKendall, sensSlope } from "../statistics";
+
+// Mann–Kendall trend test and Sen's slope of each region's trend series.
+// Only observed periods count: gap-filled or smoothed values would make the
+// test see a trend more often than it should.
+
+export const DEFAULT_ALPHA = 0.05;
+
+export function analyzeRegionTrends(
+  { index, data, trends }: Pick<SoilMoistureResponse, "index" | "data" | "trends">,
+  startDate: string,
+  alpha: number,
+): RegionTrend[] {
+  const { wetIsHigh } = moistureIndexInfo[index];
+
+  return data.map(({ region, geometry }) => {
+    const xs: number[] = [];
+    const ys: number[] = [];
+    for (const point of trends) {
+      const value = point[region];
+      if (typeof value !== "number") continue;
+      xs.push(yearsSince(startDate, point.date));
+      ys.push(value);
+    }
+
+    const { slope, intercept } = xs.length >= 2 ? sensSlope(xs, ys) : { slope: 0, intercept: ys[0] ?? 0 };
+    const { tau, z, pValue } = mannKendall(ys);
+    const significant = pValue < alpha && slope !== 0;
+    const wetting = wetIsHigh ? slope > 0 : slope < 0;
+
+    return {
+      region,
+      geometry,
+      n: ys.length,
+      slope,
+      intercept,
+      tau,
+      z,
+      pValue,
+      significant,
+      direction: !significant ? "none" : wetting ? "wetting" : "drying",
+    };
+  });
+}
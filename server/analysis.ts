@@ -0,0 +1,173 @@
+import type {
+  AnalysisEnvelope,
+  AnalysisRequest,
+  AnalysisResult,
+  AnomalyAnalysisQuery,
+  AnomalyAnalysisResponse,
+  ChangeAnalysisQuery,
+  ChangeAnalysisResponse,
+  SoilMoistureResponse,
+  TrendAnalysisQuery,
+  TrendAnalysisResponse,
+} from "@shared/schema";
+import { differenceRange } from "@shared/change";
+import { slopeRange } from "@shared/trends";
+import { DEFAULT_THRESHOLD, detectAnomalies } from "./analyses/anomaly";
+import { analyzeRegionChanges, changeWindowQueries, sumAreas } from "./analyses/change";
+import { analyzeRegionTrends, DEFAULT_ALPHA } from "./analyses/trend";
+import { trackProgress } from "./progress";
+import { provider } from "./provider";
+import { getSoilMoisture } from "./soilMoisture";
+import { tileUrlTemplate } from "./tiles";
+
+// Reports the percent of an analysis done and, where the provider has one,
+// the analysis of the periods finished so far
+export type ProgressListener<T> = (percent: number, partial?: T) => void;
+
+// Trend analysis of the provider's observed series; the per-pixel layer is
+// rendered by the provider as the "trend" tile layer
+export async function getTrendAnalysis(
+  query: TrendAnalysisQuery,
+  signal?: AbortSignal,
+  onProgress?: ProgressListener<TrendAnalysisResponse>,
+): Promise<TrendAnalysisResponse> {
+  const { alpha = DEFAULT_ALPHA, perPixel, reference, gapFill, smoothing, smoothingWindow, ...seriesQuery } = query;
+  const analyze = (result: SoilMoistureResponse): TrendAnalysisResponse => ({
+    index: result.index,
+    startDate: query.startDate,
+    endDate: query.endDate,
+    alpha,
+    regions: analyzeRegionTrends(result, query.startDate, alpha),
+    slopeRange: slopeRange(result.index),
+    tileUrl: perPixel ? tileUrlTemplate({ layer: "trend", query: { ...seriesQuery, alpha } }) : undefined,
+  });
+
+  const percentDone = trackProgress(1);
+  return analyze(await provider.getSoilMoisture(seriesQuery, signal, (progress) =>
+    onProgress?.(percentDone(0, progress), progress.partial && analyze(progress.partial))));
+}
+
+// Regional differences between two windows, with the area of significant
+// wetting and drying from the provider; the per-pixel difference is the
+// "change" tile layer. Both windows are needed for any difference, so there
+// are no partial results.
+export async function getChangeAnalysis(
+  query: ChangeAnalysisQuery,
+  signal?: AbortSignal,
+  onProgress?: ProgressListener<ChangeAnalysisResponse>,
+): Promise<ChangeAnalysisResponse> {
+  const alpha = query.alpha ?? DEFAULT_ALPHA;
+  const windows = changeWindowQueries(query);
+  const percentDone = trackProgress(3);
+  const [before, after, areas] = await Promise.all([
+    provider.getSoilMoisture(windows.before, signal, (progress) => onProgress?.(percentDone(0, progress))),
+    provider.getSoilMoisture(windows.after, signal, (progress) => onProgress?.(percentDone(1, progress))),
+    provider.getChangeAreas(query, signal).then((areas) => {
+      onProgress?.(percentDone(2, { done: 1, total: 1 }));
+      return areas;
+    }),
+  ]);
+  const { index } = after;
+
+  const regions = analyzeRegionChanges(before, after, alpha).map((change) => ({
+    ...change,
+    area: areas.find(({ region }) => region === change.region) ?? { region: change.region, total: 0, wetting: 0, drying: 0 },
+  }));
+
+  const { perPixel, reference, gapFill, smoothing, smoothingWindow, ...layerQuery } = query;
+  return {
+    index,
+    before: { startDate: query.beforeStartDate, endDate: query.beforeEndDate },
+    after: { startDate: query.startDate, endDate: query.endDate },
+    alpha,
+    regions,
+    area: sumAreas(regions.map(({ area }) => area)),
+    differenceRange: differenceRange(index),
+    tileUrl: perPixel ? tileUrlTemplate({ layer: "change", query: { ...layerQuery, alpha } }) : undefined,
+  };
+}
+
+// Anomalous events per region from the per-period z-scores against the
+// climatology; the per-pixel z-score of the window is the "anomaly" tile layer
+export async function getAnomalyAnalysis(
+  query: AnomalyAnalysisQuery,
+  signal?: AbortSignal,
+  onProgress?: ProgressListener<AnomalyAnalysisResponse>,
+): Promise<AnomalyAnalysisResponse> {
+  const { threshold = DEFAULT_THRESHOLD, perPixel, reference, gapFill, smoothing, smoothingWindow, ...seriesQuery } = query;
+  const analyze = (result: SoilMoistureResponse): AnomalyAnalysisResponse => ({
+    index: result.index,
+    startDate: query.startDate,
+    endDate: query.endDate,
+    threshold,
+    baseline: result.baseline,
+    regions: detectAnomalies(result, query, threshold),
+    tileUrl: perPixel ? tileUrlTemplate({ layer: "anomaly", query: { ...seriesQuery, threshold } }) : undefined,
+  });
+
+  const percentDone = trackProgress(1);
+  return analyze(await provider.getSoilMoisture(seriesQuery, signal, (progress) =>
+    onProgress?.(percentDone(0, progress), progress.partial && analyze(progress.partial))));
+}
+
+// Version of the envelope, as declared by AnalysisEnvelope
+export const ANALYSIS_VERSION = 1;
+
+async function analyze(
+  request: AnalysisRequest,
+  signal?: AbortSignal,
+  onProgress?: ProgressListener<AnalysisResult>,
+): Promise<AnalysisResult> {
+  switch (request.type) {
+    case "average": {
+      const { type, ...query } = request;
+      return {
+        type,
+        result: await getSoilMoisture(query, signal, (percent, partial) =>
+          onProgress?.(percent, partial && { type, result: partial })),
+      };
+    }
+    case "change": {
+      const { type, ...query } = request;
+      return { type, result: await getChangeAnalysis(query, signal, (percent) => onProgress?.(percent)) };
+    }
+    case "anomaly": {
+      const { type, ...query } = request;
+      return {
+        type,
+        result: await getAnomalyAnalysis(query, signal, (percent, partial) =>
+          onProgress?.(percent, partial && { type, result: partial })),
+      };
+    }
+    case "trend": {
+      const { type, ...query } = request;
+      return {
+        type,
+        result: await getTrendAnalysis(query, signal, (percent, partial) =>
+          onProgress?.(percent, partial && { type, result: partial })),
+      };
+    }
+  }
+}
+
+const envelope = (request: AnalysisRequest, result: AnalysisResult): AnalysisEnvelope => ({
+  ...result,
+  version: ANALYSIS_VERSION,
+  request,
+  completedAt: new Date().toISOString(),
+});
+
+// Run any analysis type, every selected region in the same provider calls,
+// and wrap its result with the request it answers. Aborting the signal stops
+// the provider calls still outstanding. onProgress gets the percent done and,
+// after each batch the provider finishes, the envelope of the periods done
+// so far where the analysis type allows one.
+export async function runAnalysis(
+  request: AnalysisRequest,
+  signal?: AbortSignal,
+  onProgress?: ProgressListener<AnalysisEnvelope>,
+): Promise<AnalysisEnvelope> {
+  const result = await analyze(request, signal, (percent, partial) =>
+    onProgress?.(percent, partial && envelope(request, partial)));
+  return envelope(request, result);
+}
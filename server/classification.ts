@@ -0,0 +1,25 @@
+import type { MoistureIndex } from "@shared/indices";
+import { classify, type ClassificationScheme } from "@shared/classification";
+import type { ClimatologyStats } from "@shared/schema";
+
+// Class of a regional value in the selected scheme. Percentile schemes rank
+// the value within its climatology; without enough baseline years there is
+// nothing to rank it against, and without observations nothing to classify.
+export const classifySoilMoisture = (
+  scheme: ClassificationScheme,
+  index: MoistureIndex,
+  value: number | null,
+  climatology?: ClimatologyStats,
+): { category?: string; status: string } => {
+  if (value === null) {
+    return { status: "No Data" };
+  }
+
+  if (scheme.basis === "percentile" && !climatology) {
+    return { status: "Insufficient Baseline" };
+  }
+
+  const input = scheme.basis === "percentile" ? climatology!.percentile : value;
+  const { id, label } = classify(scheme, index, input);
+  return { category: id, status: label };
+};
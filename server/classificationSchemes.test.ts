@@ -0,0 +1,82 @@
+import { after, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ClassificationSchemeStore, schemeVersion } from "./classificationSchemes";
+import type { ClassificationScheme } from "@shared/classification";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "schemes-test-"));
+const file = path.join(directory, "classification-schemes.json");
+
+const scheme: ClassificationScheme = {
+  id: "two-class",
+  label: "Two classes",
+  description: "",
+  basis: "value",
+  classes: [
+    { id: "dry", label: "Dry", color: "#ff0000" },
+    { id: "wet", label: "Wet", color: "#0000ff" },
+  ],
+  breaks: [0.5],
+};
+
+describe("ClassificationSchemeStore", () => {
+  beforeEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.mkdirSync(directory);
+  });
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  test("keeps custom schemes across instances", async () => {
+    await new ClassificationSchemeStore(file).put(scheme);
+    const resolved = await new ClassificationSchemeStore(file).resolve("two-class", "NDMI");
+    assert.deepEqual(resolved, { ...scheme, custom: true });
+  });
+
+  test("moves a corrupt file aside and starts without custom schemes", async () => {
+    fs.writeFileSync(file, "{ not json");
+    const store = new ClassificationSchemeStore(file);
+
+    assert.deepEqual((await store.list()).filter(({ custom }) => custom), []);
+    assert.equal(fs.existsSync(file), false);
+    assert.equal(fs.readdirSync(directory).filter((name) => name.includes(".corrupt-")).length, 1);
+  });
+
+  test("moves aside a file holding invalid schemes", async () => {
+    fs.writeFileSync(file, JSON.stringify([{ ...scheme, breaks: [0.2, 0.4] }]));
+    const store = new ClassificationSchemeStore(file);
+
+    await assert.rejects(store.resolve("two-class", "NDMI"), /Unknown classification scheme/);
+    assert.equal(fs.existsSync(file), false);
+  });
+
+  test("retries a failed load instead of remembering it", async () => {
+    // A directory where the file should be fails to read with EISDIR
+    fs.mkdirSync(file);
+    const store = new ClassificationSchemeStore(file);
+    await assert.rejects(store.list());
+
+    fs.rmdirSync(file);
+    fs.writeFileSync(file, JSON.stringify([scheme]));
+    assert.equal((await store.list()).some(({ id }) => id === "two-class"), true);
+  });
+
+  test("keeps every change when they overlap", async () => {
+    const store = new ClassificationSchemeStore(file);
+    await store.put({ ...scheme, id: "removed" });
+    await Promise.all([
+      ...["a", "b", "c", "d"].map((id) => store.put({ ...scheme, id })),
+      store.remove("removed"),
+    ]);
+
+    const stored = JSON.parse(fs.readFileSync(file, "utf8")).map(({ id }: ClassificationScheme) => id);
+    assert.deepEqual(stored.sort(), ["a", "b", "c", "d"]);
+    assert.deepEqual(fs.readdirSync(directory), ["classification-schemes.json"]);
+  });
+
+  test("versions a scheme by its contents", () => {
+    assert.equal(schemeVersion(scheme), schemeVersion({ ...scheme }));
+    assert.notEqual(schemeVersion(scheme), schemeVersion({ ...scheme, breaks: [0.4] }));
+  });
+});
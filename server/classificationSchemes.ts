@@ -0,0 +1,128 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import {
+  appliesTo,
+  builtInSchemes,
+  classificationSchemeSchema,
+  DEFAULT_SCHEME,
+  type ClassificationScheme,
+} from "@shared/classification";
+import type { MoistureIndex } from "@shared/indices";
+import { UnsupportedQueryError } from "./errors";
+
+// The built-in schemes plus the custom ones added through the admin API,
+// which are kept in a JSON file so they survive restarts
+
+const storedSchemesSchema = z.array(classificationSchemeSchema);
+
+// Custom schemes can be edited under the same id, so anything cached from a
+// scheme is keyed by its contents rather than its id
+export const schemeVersion = (scheme: ClassificationScheme) =>
+  crypto.createHash("sha1").update(JSON.stringify(scheme)).digest("hex").slice(0, 12);
+
+export class ClassificationSchemeStore {
+  private custom = new Map<string, ClassificationScheme>();
+  private loading?: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  // A failed read is retried by the next call rather than remembered
+  private load(): Promise<void> {
+    this.loading ??= this.read().catch((error) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async read() {
+    let text: string;
+    try {
+      text = await fs.promises.readFile(this.file, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+
+    let schemes: ClassificationScheme[];
+    try {
+      schemes = storedSchemesSchema.parse(JSON.parse(text));
+    } catch (error) {
+      // Keep the unreadable file for inspection and start without custom schemes
+      const quarantined = `${this.file}.corrupt-${Date.now()}`;
+      console.error(`Invalid classification schemes file, moved to ${quarantined}:`, error);
+      await fs.promises.rename(this.file, quarantined);
+      return;
+    }
+
+    for (const scheme of schemes) {
+      this.custom.set(scheme.id, { ...scheme, custom: true });
+    }
+  }
+
+  // Writes go one at a time through the same temporary file, each with the
+  // schemes as they were when it was requested, so the last change wins
+  private save(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.custom.values()), null, 2);
+    const write = this.writing.then(async () => {
+      await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+      const temporary = `${this.file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temporary, snapshot);
+      await fs.promises.rename(temporary, this.file);
+    });
+    // A failed write is reported to its caller and does not hold up the next
+    this.writing = write.catch(() => {});
+    return write;
+  }
+
+  isBuiltIn(id: string) {
+    return builtInSchemes.some((scheme) => scheme.id === id);
+  }
+
+  // Schemes usable with an index, or all of them
+  async list(index?: MoistureIndex): Promise<ClassificationScheme[]> {
+    await this.load();
+    const schemes = [...builtInSchemes, ...Array.from(this.custom.values())];
+    return index ? schemes.filter((scheme) => appliesTo(scheme, index)) : schemes;
+  }
+
+  async resolve(id: string | undefined, index: MoistureIndex): Promise<ClassificationScheme> {
+    await this.load();
+    const schemeId = id ?? DEFAULT_SCHEME;
+    const scheme = builtInSchemes.find((s) => s.id === schemeId) ?? this.custom.get(schemeId);
+
+    if (!scheme) {
+      throw new UnsupportedQueryError(`Unknown classification scheme "${schemeId}"`);
+    }
+    if (!appliesTo(scheme, index)) {
+      throw new UnsupportedQueryError(`Classification scheme "${schemeId}" does not apply to ${index}`);
+    }
+    return scheme;
+  }
+
+  // Add or replace a custom scheme; built-in ids are rejected by the caller
+  async put(scheme: ClassificationScheme): Promise<ClassificationScheme> {
+    await this.load();
+    const stored = { ...scheme, custom: true };
+    this.custom.set(scheme.id, stored);
+    await this.save();
+    return stored;
+  }
+
+  // Returns false when there is no custom scheme with that id
+  async remove(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.custom.delete(id)) return false;
+    await this.save();
+    return true;
+  }
+}
+
+export const classificationSchemes = new ClassificationSchemeStore(
+  path.resolve(
+    process.env.CLASSIFICATION_SCHEMES_FILE ?? path.join(process.cwd(), ".data", "classification-schemes.json"),
+  ),
+);
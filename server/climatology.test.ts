@@ -0,0 +1,117 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  anomalyTrends,
+  baselineYears,
+  compareWithClimatology,
+  getBaseline,
+  percentileOf,
+  periodInYear,
+} from "./climatology";
+import { UnsupportedQueryError } from "./errors";
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not close to ${expected}`);
+
+const query = { startDate: "2023-01-01", endDate: "2023-03-31", timeStep: "monthly" as const };
+
+describe("percentileOf", () => {
+  test("counts the samples below the value", () => {
+    assert.equal(percentileOf(0.25, [0.1, 0.2, 0.3, 0.4]), 50);
+  });
+
+  test("counts ties as half", () => {
+    assert.equal(percentileOf(0.2, [0.1, 0.2, 0.3, 0.4]), 37.5);
+    assert.equal(percentileOf(0.2, [0.2, 0.2, 0.2, 0.2]), 50);
+  });
+
+  test("reaches 0 and 100 only outside the samples", () => {
+    assert.equal(percentileOf(0.05, [0.1, 0.2, 0.3, 0.4]), 0);
+    assert.equal(percentileOf(0.5, [0.1, 0.2, 0.3, 0.4]), 100);
+    assert.equal(percentileOf(0.1, [0.1, 0.2, 0.3, 0.4]), 12.5);
+    assert.equal(percentileOf(0.4, [0.1, 0.2, 0.3, 0.4]), 87.5);
+  });
+});
+
+describe("periodInYear", () => {
+  test("moves a window to the same dates of another year", () => {
+    assert.deepEqual(periodInYear({ start: "2023-03-01", end: "2023-03-31" }, 2015), {
+      start: "2015-03-01",
+      end: "2015-03-31",
+    });
+  });
+
+  test("keeps the span of a window crossing New Year", () => {
+    assert.deepEqual(periodInYear({ start: "2023-12-25", end: "2024-01-07" }, 2019), {
+      start: "2019-12-25",
+      end: "2020-01-07",
+    });
+    assert.deepEqual(periodInYear({ start: "2023-12-25", end: "2024-01-07" }, 2023), {
+      start: "2023-12-25",
+      end: "2024-01-07",
+    });
+  });
+
+  test("moves a leap day to 1 March in other years", () => {
+    assert.deepEqual(periodInYear({ start: "2024-02-26", end: "2024-02-29" }, 2021), {
+      start: "2021-02-26",
+      end: "2021-03-01",
+    });
+  });
+});
+
+describe("compareWithClimatology", () => {
+  test("standardizes the value against the samples", () => {
+    const stats = compareWithClimatology(0.4, [0.1, 0.2, 0.3]);
+    assert.ok(stats);
+    close(stats.mean, 0.2);
+    close(stats.stdDev, 0.1);
+    close(stats.zScore, 2);
+    assert.equal(stats.percentile, 100);
+    assert.equal(stats.years, 3);
+  });
+
+  test("needs at least three years", () => {
+    assert.equal(compareWithClimatology(0.4, [0.1, 0.2]), undefined);
+    assert.equal(compareWithClimatology(0.4, []), undefined);
+  });
+
+  test("gives a zero anomaly when the samples do not vary", () => {
+    const stats = compareWithClimatology(0.4, [0.2, 0.2, 0.2]);
+    assert.equal(stats?.zScore, 0);
+    assert.equal(stats?.stdDev, 0);
+  });
+});
+
+describe("anomalyTrends", () => {
+  test("replaces each value with its z-score and drops the rest", () => {
+    const samples: Record<string, number[]> = {
+      "2023-01-01/North": [0.1, 0.2, 0.3],
+      "2023-02-01/North": [0.1],
+    };
+    const trends = anomalyTrends(
+      [
+        { name: "Jan 2023", date: "2023-01-01", North: 0.1, interpolated: ["North"] },
+        { name: "Feb 2023", date: "2023-02-01", North: 0.3 },
+      ],
+      (date, region) => samples[`${date}/${region}`] ?? [],
+    );
+
+    assert.equal(trends.length, 2);
+    assert.deepEqual(Object.keys(trends[0]).sort(), ["North", "date", "name"]);
+    close(trends[0].North as number, -1);
+    assert.deepEqual(trends[1], { name: "Feb 2023", date: "2023-02-01" });
+  });
+});
+
+describe("getBaseline", () => {
+  test("takes the years of the query", () => {
+    const baseline = getBaseline({ ...query, baselineStart: 2015, baselineEnd: 2017 });
+    assert.deepEqual(baseline, { startYear: 2015, endYear: 2017 });
+    assert.deepEqual(baselineYears(baseline), [2015, 2016, 2017]);
+  });
+
+  test("rejects a baseline that ends before it starts", () => {
+    assert.throws(() => getBaseline({ ...query, baselineStart: 2020, baselineEnd: 2015 }), UnsupportedQueryError);
+  });
+});
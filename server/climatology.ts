@@ -0,0 +1,85 @@
+import type { ClimatologyStats, SoilMoistureQuery, TrendPoint } from "@shared/schema";
+import { UnsupportedQueryError } from "./errors";
+import type { Period } from "./periods";
+import { mean, sampleVariance } from "./statistics";
+
+// Reference years for the climatology, overridable per query
+const DEFAULT_BASELINE_START = Number(process.env.CLIMATOLOGY_START) || 2013;
+const DEFAULT_BASELINE_END = Number(process.env.CLIMATOLOGY_END) || 2022;
+
+// Fewer yearly samples than this give no meaningful spread
+export const MIN_YEARS = 3;
+
+export interface Baseline {
+  startYear: number;
+  endYear: number;
+}
+
+export function getBaseline(query: SoilMoistureQuery): Baseline {
+  const startYear = query.baselineStart ?? DEFAULT_BASELINE_START;
+  const endYear = query.baselineEnd ?? DEFAULT_BASELINE_END;
+  if (startYear > endYear) {
+    throw new UnsupportedQueryError(`Baseline start ${startYear} is after its end ${endYear}`);
+  }
+  return { startYear, endYear };
+}
+
+export const baselineYears = ({ startYear, endYear }: Baseline) =>
+  Array.from({ length: endYear - startYear + 1 }, (_, i) => startYear + i);
+
+const shiftYears = (date: string, years: number) => {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCFullYear(shifted.getUTCFullYear() + years);
+  return shifted.toISOString().slice(0, 10);
+};
+
+// The same calendar window (e.g. the same week or month of year) in another
+// year; windows crossing New Year keep their span
+export function periodInYear({ start, end }: Period, year: number): Period {
+  const offset = year - Number(start.slice(0, 4));
+  return { start: shiftYears(start, offset), end: shiftYears(end, offset) };
+}
+
+// Identical values have no spread, though rounding in their mean would leave one
+const standardDeviation = (values: number[]) =>
+  values.every((value) => value === values[0]) ? 0 : Math.sqrt(sampleVariance(values));
+
+// Share of the yearly samples below the value, counting ties as half, in percent
+export const percentileOf = (value: number, samples: number[]) => {
+  const below = samples.filter((sample) => sample < value).length;
+  const ties = samples.filter((sample) => sample === value).length;
+  return (100 * (below + ties / 2)) / samples.length;
+};
+
+// Standardized anomaly and percentile of a value against the values of the
+// same period in the baseline years
+export function compareWithClimatology(value: number, samples: number[]): ClimatologyStats | undefined {
+  if (samples.length < MIN_YEARS) return undefined;
+
+  const average = mean(samples);
+  const stdDev = standardDeviation(samples);
+  return {
+    mean: average,
+    stdDev,
+    zScore: stdDev > 0 ? (value - average) / stdDev : 0,
+    percentile: percentileOf(value, samples),
+    years: samples.length,
+  };
+}
+
+// Z-scores of every trend value against its period's yearly samples, keyed
+// like the trends. `samples(date, region)` returns the baseline values.
+export function anomalyTrends(
+  trends: TrendPoint[],
+  samples: (date: string, region: string) => number[],
+): TrendPoint[] {
+  return trends.map(({ name, date, ...values }) => {
+    const point: TrendPoint = { name, date };
+    for (const [region, value] of Object.entries(values)) {
+      if (typeof value !== "number") continue;
+      const stats = compareWithClimatology(value, samples(date, region));
+      if (stats) point[region] = stats.zScore;
+    }
+    return point;
+  });
+}
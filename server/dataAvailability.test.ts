@@ -0,0 +1,63 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { MoistureIndex } from "@shared/indices";
+import { DataAvailability, type NewData } from "./dataAvailability";
+
+// A provider whose acquisitions the tests move forward
+const fakeSource = (acquisitions: Partial<Record<MoistureIndex, Record<string, string>>>) => ({
+  acquisitions,
+  getIndices: async () => Object.keys(acquisitions) as MoistureIndex[],
+  getLatestAcquisitions: async (index: MoistureIndex) => {
+    if (!acquisitions[index]) throw new Error(`No ${index} collection`);
+    return new Map(Object.entries(acquisitions[index]!));
+  },
+});
+
+const watch = (source: ReturnType<typeof fakeSource>) => {
+  const announced: NewData[] = [];
+  return { announced, availability: new DataAvailability(source, 0, (update) => void announced.push(update)) };
+};
+
+describe("DataAvailability", () => {
+  test("records the first poll without announcing it", async () => {
+    const source = fakeSource({ NDMI: { "North Region": "2024-05-01" } });
+    const { announced, availability } = watch(source);
+
+    await availability.poll();
+    assert.deepEqual(announced, []);
+  });
+
+  test("announces later acquisitions once", async () => {
+    const source = fakeSource({ NDMI: { "North Region": "2024-05-01", "Central Plains": "2024-05-03" } });
+    const { announced, availability } = watch(source);
+    await availability.poll();
+
+    source.acquisitions.NDMI = { "North Region": "2024-05-09", "Central Plains": "2024-05-03" };
+    await availability.poll();
+    await availability.poll();
+
+    assert.deepEqual(announced, [{ region: "North Region", index: "NDMI", date: "2024-05-09" }]);
+  });
+
+  test("announces a region that had no imagery at the previous poll", async () => {
+    const source = fakeSource({ SAR: {} });
+    const { announced, availability } = watch(source);
+    await availability.poll();
+
+    source.acquisitions.SAR = { "Eastern Basin": "2024-05-02" };
+    await availability.poll();
+
+    assert.deepEqual(announced, [{ region: "Eastern Basin", index: "SAR", date: "2024-05-02" }]);
+  });
+
+  test("keeps checking the other indices when one fails", async () => {
+    const source = fakeSource({ NDMI: { "North Region": "2024-05-01" }, SMAP: undefined });
+    const { announced, availability } = watch(source);
+    await availability.poll();
+
+    source.acquisitions.NDMI = { "North Region": "2024-05-09" };
+    await availability.poll();
+
+    assert.deepEqual(announced.map(({ index }) => index), ["NDMI"]);
+  });
+});
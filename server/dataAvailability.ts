@@ -0,0 +1,96 @@
+import type { MoistureIndex } from "@shared/indices";
+import { liveUpdates } from "./live";
+import { provider, type SoilMoistureProvider } from "./provider";
+import { resultCache } from "./resultCache";
+import { tileCache } from "./tileCache";
+
+// Polls the provider for the latest acquisition of every index over every
+// region. The first poll of an index only records what is there; a later
+// acquisition after that is new imagery: the cached results and tiles of
+// windows containing it are dropped, then it is announced to the region's
+// live update subscribers, whose refetch then sees it.
+
+const DEFAULT_POLL_MINUTES = 60;
+const MINUTE_MS = 60 * 1000;
+
+export interface NewData {
+  region: string;
+  index: MoistureIndex;
+  // Date of the latest acquisition
+  date: string;
+}
+
+export class DataAvailability {
+  private latest = new Map<string, string>();
+  private polled = new Set<MoistureIndex>();
+  private timer?: ReturnType<typeof setInterval>;
+  private polling?: Promise<void>;
+
+  constructor(
+    private readonly source: Pick<SoilMoistureProvider, "getIndices" | "getLatestAcquisitions">,
+    private readonly intervalMs: number,
+    private readonly onNewData: (update: NewData) => void | Promise<void>,
+  ) {}
+
+  // A non-positive interval disables polling
+  start() {
+    if (!(this.intervalMs > 0) || this.timer) return;
+    this.poll();
+    this.timer = setInterval(() => this.poll(), this.intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // A poll still running when the next is due is not started twice
+  poll(): Promise<void> {
+    this.polling ??= this.check().finally(() => {
+      this.polling = undefined;
+    });
+    return this.polling;
+  }
+
+  private async check() {
+    let indices: MoistureIndex[];
+    try {
+      indices = await this.source.getIndices();
+    } catch (error) {
+      return console.error("Failed to list indices for the availability check:", error);
+    }
+
+    // One index failing (e.g. a collection being reprocessed) leaves the others
+    for (const index of indices) {
+      try {
+        const acquisitions = await this.source.getLatestAcquisitions(index);
+        const announce = this.polled.has(index);
+        this.polled.add(index);
+
+        for (const [region, date] of Array.from(acquisitions)) {
+          const key = `${index}:${region}`;
+          const previous = this.latest.get(key);
+          if (previous !== undefined && date <= previous) continue;
+          this.latest.set(key, date);
+          if (announce) await this.onNewData({ region, index, date });
+        }
+      } catch (error) {
+        console.error(`Failed to check for new ${index} imagery:`, error);
+      }
+    }
+  }
+}
+
+export const dataAvailability = new DataAvailability(
+  provider,
+  Number(process.env.DATA_POLL_MINUTES ?? DEFAULT_POLL_MINUTES) * MINUTE_MS,
+  async (update) => {
+    const window = { from: update.date, to: update.date };
+    await Promise.all([
+      resultCache.purge({ ...window, region: update.region }),
+      tileCache.purge(window),
+    ]).catch((error) => console.error("Failed to drop results outdated by new imagery:", error));
+    liveUpdates.publish({ type: "data", ...update });
+  },
+);
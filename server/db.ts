@@ -0,0 +1,14 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+// The database is optional: without DATABASE_URL the features backed by it
+// (the result cache) are turned off
+neonConfig.webSocketConstructor = ws;
+
+export const db = process.env.DATABASE_URL
+  ? drizzle({ client: new Pool({ connectionString: process.env.DATABASE_URL }), schema })
+  : undefined;
+
+export type Database = NonNullable<typeof db>;
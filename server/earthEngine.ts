@@ -1,110 +1,944 @@
 import ee from '@google/earthengine';
-import dotenv from 'dotenv';
+import { DEFAULT_INDEX, moistureIndexInfo, type MoistureIndex } from '@shared/indices';
+import { breakIncludedAbove, schemeBreaks } from '@shared/classification';
+import { assessConfidence } from '@shared/quality';
+import { SLOPE_PALETTE, slopeRange, yearsSince } from '@shared/trends';
+import { CHANGE_PALETTE, differenceRange } from '@shared/change';
+import { ANOMALY_PALETTE, ANOMALY_RANGE } from '@shared/anomaly';
+import type {
+  AnomalyAnalysisQuery,
+  ChangeAnalysisQuery,
+  ChangeArea,
+  DataQuality,
+  LandCoverQuery,
+  LandCoverResponse,
+  PrecipitationQuery,
+  PrecipitationResponse,
+  RegionFeature,
+  RegionInfo,
+  SoilMoistureQuery,
+  SoilMoistureResponse,
+  TileCoordinates,
+  TrendAnalysisQuery,
+  TrendPoint
+} from '@shared/schema';
+import type { ProviderStatus, QueryProgress, SoilMoistureProvider } from './provider';
+import { DEFAULT_THRESHOLD } from './analyses/anomaly';
+import { changeWindowQueries } from './analyses/change';
+import { DEFAULT_ALPHA } from './analyses/trend';
+import { classifySoilMoisture } from './classification';
+import { classificationSchemes } from './classificationSchemes';
+import { earthEngine } from './earthEngineClient';
+import { ProviderUnavailableError, UnsupportedQueryError } from './errors';
+import { getIndex, listIndices, type IndexImplementation, type IndexWindow, type RegionIndex } from './indices';
+import { DEFAULT_MASKING, getMaskingOptions } from './landsat';
+import { LAND_COVER_SCALE, loadLandCover, restrictToLandCover, visualizeLandCover } from './landCover';
+import {
+  MIN_YEARS,
+  anomalyTrends,
+  baselineYears,
+  compareWithClimatology,
+  getBaseline,
+  periodInYear,
+  type Baseline
+} from './climatology';
+import { buildPeriods, formatPeriodName } from './periods';
+import { mean, normalQuantile } from './statistics';
+import { fetchTile, type TileRequest } from './tiles';
+import { PRECIPITATION_PALETTE, precipitationRange } from '@shared/precipitation';
+import { landCoverFractions } from '@shared/landCover';
 
-dotenv.config();
+// Define region ids, names and bounding boxes [west, south, east, north]
+const regionDefinitions = [
+  { id: 'region1', name: 'North Region', bounds: [-98, 40, -90, 45] },
+  { id: 'region2', name: 'Central Plains', bounds: [-110, 35, -100, 42] },
+  { id: 'region3', name: 'Eastern Basin', bounds: [-85, 38, -80, 42] },
+  { id: 'region4', name: 'Southern Valley', bounds: [-95, 30, -85, 35] },
+  { id: 'region5', name: 'Western Hills', bounds: [-120, 38, -115, 45] }
+];
 
-const getPrivateKey = () => {
-  const key = process.env.GOOGLE_EE_PRIVATE_KEY;
-  if (!key) {
-    throw new Error('Google Earth Engine private key not found');
+type RegionDefinition = typeof regionDefinitions[number];
+
+// Accept either a region id or a region name; 'entire' or nothing selects all
+const selectRegions = (region?: string): RegionDefinition[] => {
+  if (!region || region === 'entire') {
+    return regionDefinitions;
+  }
+  const selected = regionDefinitions.filter(({ id, name }) => id === region || name === region);
+  if (selected.length === 0) {
+    throw new UnsupportedQueryError(`Unknown region "${region}"`);
   }
-  return key.replace(/\n/g, '\n');
+  return selected;
 };
 
-const initialize = async () => {
-  try {
-    const privateKey = getPrivateKey();
-    const clientEmail = process.env.GOOGLE_EE_CLIENT_EMAIL;
-    
-    if (!clientEmail) {
-      throw new Error('Google Earth Engine client email not found');
-    }
+// Function to create Earth Engine regions after initialization
+const createRegions = (definitions: RegionDefinition[]) => {
+  return definitions.reduce((acc, { name, bounds }) => {
+    acc[name] = ee.Geometry.Rectangle(bounds);
+    return acc;
+  }, {} as { [key: string]: any });
+};
+
+// Feature collection of the selected regions, tagged with their names
+const createRegionCollection = (definitions: RegionDefinition[]) =>
+  ee.FeatureCollection(definitions.map(({ name, bounds }) =>
+    ee.Feature(ee.Geometry.Rectangle(bounds), { name })
+  ));
+
+// Composites reduced per evaluate when a table spans many periods (and
+// baseline years); larger batches are split so long windows stay within
+// Earth Engine's per-request computation limits
+const REDUCTION_BATCH_SIZE = Number(process.env.EE_REDUCTION_BATCH_SIZE) || 24;
+
+// Those batches are reduced in smaller tiles, trading speed for memory, as
+// reduceRegions has no bestEffort fallback
+const BATCH_TILE_SCALE = 4;
+
+// Fully masked index band, merged into every collection before compositing so
+// that windows without acquisitions reduce to null instead of failing
+const emptyIndexImage = (index: MoistureIndex) =>
+  ee.Image(0).float().rename(index).updateMask(0);
+
+// Mean index image over a source collection covering every selected region,
+// so a single reduceRegions answers for all of them. Indices with per-region
+// parameters (fitted edges) are clipped to their region and mosaicked, which
+// relies on the region boxes not overlapping.
+const compositeByRegion = (
+  index: MoistureIndex,
+  regionIndices: { [key: string]: RegionIndex },
+  regions: { [key: string]: any },
+  source: any
+) => {
+  const composite = (regionIndex: RegionIndex) =>
+    regionIndex.toIndex(source)
+      .merge(ee.ImageCollection([emptyIndexImage(index)]))
+      .mean();
+
+  const entries = Object.entries(regionIndices);
+  if (entries.every(([, regionIndex]) => !regionIndex.edges)) {
+    return composite(entries[0][1]);
+  }
+
+  return ee.ImageCollection(
+    entries.map(([name, regionIndex]) => composite(regionIndex).clip(regions[name]))
+  ).mosaic();
+};
+
+// Mean of every band per region, keyed by band name, in one round trip
+const reduceByRegion = async (image: any, regionCollection: any, scale: number, signal?: AbortSignal) => {
+  const table = await earthEngine.evaluate(
+    image.reduceRegions({
+      collection: regionCollection,
+      reducer: ee.Reducer.mean().forEachBand(image),
+      scale
+    }),
+    signal
+  );
+
+  return new Map<string, { [band: string]: number | null }>(
+    table.features.map(({ properties }: any) => [properties.name, properties])
+  );
+};
+
+// Scenes over each region and how much of the region the composite covers,
+// in one round trip. The mask band is 1 where at least one observation
+// survived masking, so its mean is the valid fraction and its sum the count.
+const qualityByRegion = async (
+  index: MoistureIndex,
+  composite: any,
+  source: any,
+  regionCollection: any,
+  scale: number,
+  signal?: AbortSignal
+): Promise<Map<string, DataQuality>> => {
+  const band = composite.select(index);
+  const table = await earthEngine.evaluate(
+    band.addBands(band.mask().rename('valid'))
+      .reduceRegions({
+        collection: regionCollection,
+        reducer: ee.Reducer.mean()
+          .combine(ee.Reducer.sum(), '', true)
+          .combine(ee.Reducer.stdDev(), '', true),
+        scale
+      })
+      .map((feature: any) => feature.set(
+        'times',
+        source.filterBounds(feature.geometry()).aggregate_array('system:time_start')
+      )),
+    signal
+  );
+
+  return new Map<string, DataQuality>(table.features.map(({ properties }: any) => {
+    const times: number[] = properties.times ?? [];
+    const scenes = times.length;
+    const validFraction = properties.valid_mean ?? 0;
+    return [properties.name, {
+      scenes,
+      acquisitionDates: Array.from(new Set(times.map((time) => new Date(time).toISOString().slice(0, 10)))).sort(),
+      validPixels: Math.round(properties.valid_sum ?? 0),
+      validFraction,
+      stdDev: properties[`${index}_stdDev`] ?? undefined,
+      ...assessConfidence({ scenes, validFraction })
+    }];
+  }));
+};
 
-    console.log('Initializing Earth Engine with client email:', clientEmail);
+// Imagery for the climatology; windows may run into the year after the last
+const loadClimatologySource = (
+  implementation: IndexImplementation,
+  window: IndexWindow,
+  { startYear, endYear }: Baseline
+) => implementation.load({
+  ...window,
+  startDate: `${startYear}-01-01`,
+  endDate: `${endYear + 1}-12-31`
+});
 
-    await new Promise((resolve, reject) => {
-      ee.data.authenticateViaPrivateKey(
-        { private_key: privateKey, client_email: clientEmail },
-        () => {
-          ee.initialize(null, null, resolve, reject);
-        },
-        reject
+// Source imagery and fitted per-region parameters for an index query
+async function prepareIndex(query: SoilMoistureQuery, signal?: AbortSignal) {
+  const { startDate, endDate, region } = query;
+  const index = query.index ?? DEFAULT_INDEX;
+  const implementation = getIndex(index);
+  const masking = getMaskingOptions(query);
+
+  // Create Earth Engine regions for the selection
+  const definitions = selectRegions(region);
+  const selectedRegions = createRegions(definitions);
+  const regionCollection = createRegionCollection(definitions);
+
+  // Get the source imagery (e.g. cloud-masked Landsat 8/9) for the window
+  const window = { startDate, endDate, masking };
+  const source = implementation.load(window);
+
+  // Fit any per-region parameters (e.g. dry/wet edges)
+  const regionIndices: { [key: string]: RegionIndex } = {};
+  await Promise.all(
+    definitions.map(async ({ name }) => {
+      regionIndices[name] = restrictToLandCover(
+        await implementation.prepare(source, selectedRegions[name], window, signal),
+        query.landCover
       );
+    })
+  );
+
+  return {
+    index,
+    implementation,
+    scale: implementation.scale,
+    window,
+    definitions,
+    selectedRegions,
+    regionCollection,
+    source,
+    regionIndices
+  };
+}
+
+export async function calculateSoilMoistureIndex(
+  query: SoilMoistureQuery,
+  signal?: AbortSignal,
+  onProgress?: (progress: QueryProgress) => void
+): Promise<SoilMoistureResponse> {
+  const { startDate, endDate, timeStep, region } = query;
+  const index = query.index ?? DEFAULT_INDEX;
+  const scheme = await classificationSchemes.resolve(query.scheme, index);
+
+  try {
+    console.log(`Calculating ${index} from ${startDate} to ${endDate} with ${timeStep} time steps for region: ${region || 'all'}`);
+
+    // Wait for the shared Earth Engine session
+    await earthEngine.ready();
+
+    const {
+      implementation,
+      scale,
+      window,
+      definitions,
+      selectedRegions,
+      regionCollection,
+      source,
+      regionIndices
+    } = await prepareIndex(query, signal);
+
+    // Per-pixel share of observations discarded by masking
+    const maskedFraction = implementation.maskedFraction?.(source);
+
+    const baseline = getBaseline(query);
+    const years = baselineYears(baseline);
+    const climatologySource = loadClimatologySource(implementation, window, baseline);
+    const periods = buildPeriods(startDate, endDate, timeStep);
+
+    // Progress counts the batches of the climatology and trend tables, which
+    // hold nearly all of the work
+    const batches = (items: number) => Math.ceil(items / REDUCTION_BATCH_SIZE);
+    const total = batches((periods.length + 1) * years.length) + batches(periods.length);
+    let done = 0;
+    const advance = (partial?: SoilMoistureResponse) => onProgress?.({ done: ++done, total, partial });
+
+    // Current index, masked fraction and data quality for every region at
+    // once, and the yearly baseline values of the window and of every trend period
+    const current = compositeByRegion(index, regionIndices, selectedRegions, source);
+    const [summary, quality, samples] = await Promise.all([
+      reduceByRegion(maskedFraction ? current.addBands(maskedFraction) : current, regionCollection, scale, signal),
+      qualityByRegion(index, current, source, regionCollection, scale, signal),
+      calculateClimatologySamples(
+        climatologySource,
+        [{ key: WINDOW_PERIOD, start: startDate, end: endDate }, ...periods.map((p) => ({ key: p.start, ...p }))],
+        years,
+        index,
+        regionIndices,
+        selectedRegions,
+        regionCollection,
+        scale,
+        signal,
+        () => advance()
+      )
+    ]);
+
+    const soilMoistureData = definitions.map(({ name: regionName, bounds }) => {
+      const stats = summary.get(regionName);
+      // Windows without acquisitions reduce to null
+      const value = stats?.[index] ?? null;
+      const windowSamples = samples.get(`${WINDOW_PERIOD}|${regionName}`) ?? [];
+      const climatology = value !== null ? compareWithClimatology(value, windowSamples) : undefined;
+      const average = climatology?.mean ?? mean(windowSamples);
+
+      return {
+        region: regionName,
+        value,
+        average,
+        ...classifySoilMoisture(scheme, index, value, climatology),
+        date: new Date().toISOString(),
+        geometry: boundsToPolygon(bounds),
+        maskedFraction: stats?.maskedFraction ?? undefined,
+        edges: regionIndices[regionName].edges,
+        climatology,
+        quality: quality.get(regionName)
+      };
+    });
+
+    const respond = (trends: TrendPoint[]): SoilMoistureResponse => ({
+      index,
+      data: soilMoistureData,
+      regions: getRegionBoundaries(definitions),
+      trends,
+      baseline,
+      anomalies: anomalyTrends(trends, (date, region) => samples.get(`${date}|${region}`) ?? [])
     });
+
+    // Calculate temporal trends, answering with the periods done after each batch
+    const trends = await calculateTemporalTrends(
+      source, query, index, regionIndices, selectedRegions, regionCollection, scale, signal,
+      (partial) => advance(respond(partial))
+    );
+
+    return respond(trends);
+
   } catch (error) {
-    console.error('Error initializing Earth Engine:', error);
-    throw error;
+    console.error("Error calculating soil moisture index:", error);
+    if (error instanceof ProviderUnavailableError || error instanceof UnsupportedQueryError) {
+      throw error;
+    } else if (error instanceof Error) {
+      // Add more context to the error
+      throw new Error(`Failed to calculate soil moisture index: ${error.message}`);
+    } else {
+      throw new Error("Failed to calculate soil moisture index: Unknown error");
+    }
   }
-};
+}
 
-const calculateNDVI = (image) => {
-  return image.normalizedDifference(['SR_B5', 'SR_B4']).rename('NDVI');
-};
+// Regional means of one composite per item, tagged with the item's key, as
+// the properties of one feature per item and region. Items are reduced
+// REDUCTION_BATCH_SIZE at a time, each batch as a single table; onBatch
+// gets the rows of the batches done after each one.
+async function reduceCompositesByRegion<T>(
+  items: T[],
+  composite: (item: T) => any,
+  key: (item: T) => string,
+  regionCollection: any,
+  scale: number,
+  signal?: AbortSignal,
+  onBatch?: (rows: any[]) => void
+): Promise<any[]> {
+  const rows: any[] = [];
+  for (let i = 0; i < items.length; i += REDUCTION_BATCH_SIZE) {
+    const table = await earthEngine.evaluate(
+      ee.FeatureCollection(items.slice(i, i + REDUCTION_BATCH_SIZE).map((item) => {
+        const image = composite(item);
+        return image
+          .reduceRegions({
+            collection: regionCollection,
+            reducer: ee.Reducer.mean().forEachBand(image),
+            scale,
+            tileScale: BATCH_TILE_SCALE
+          })
+          .map((feature: any) => feature.set('key', key(item)));
+      })).flatten(),
+      signal
+    );
+    rows.push(...table.features.map(({ properties }: any) => properties));
+    onBatch?.(rows);
+  }
+  return rows;
+}
 
-const calculateLST = (image) => {
-  const thermalBand = image.select('ST_B10'); 
-  const brightnessTemp = thermalBand.multiply(0.00341802).add(149.0);
+// The period × region table is built server-side and fetched in batches of
+// periods; like the fixture provider, only periods with acquisitions are kept
+async function calculateTemporalTrends(
+  source: any,
+  { startDate, endDate, timeStep }: SoilMoistureQuery,
+  index: MoistureIndex,
+  regionIndices: { [key: string]: RegionIndex },
+  regions: { [key: string]: any },
+  regionCollection: any,
+  scale: number,
+  signal?: AbortSignal,
+  onBatch?: (trends: TrendPoint[]) => void
+): Promise<TrendPoint[]> {
+  const periods = buildPeriods(startDate, endDate, timeStep);
 
-  const proportionVeg = image.select('NDVI')
-      .subtract(0.2).divide(0.5 - 0.2).pow(2).rename('Pv');
+  const toTrends = (rows: any[]) => {
+    const trendByDate = new Map<string, TrendPoint>();
+    for (const properties of rows) {
+      const value = properties[index];
+      if (value == null) continue;
 
-  const emissivity = proportionVeg.multiply(0.004).add(0.986).rename('Emissivity');
+      const point: TrendPoint = trendByDate.get(properties.key)
+        ?? { name: formatPeriodName(properties.key), date: properties.key };
+      point[properties.name] = value;
+      trendByDate.set(properties.key, point);
+    }
 
-  const lst = brightnessTemp.expression(
-      '(Tb / (1 + (0.00115 * Tb / 14388) * log(e))) - 273.15', {
-          'Tb': brightnessTemp,
-          'e': emissivity
-      }).rename('LST');
+    return periods
+      .map(({ start }) => trendByDate.get(start))
+      .filter((point): point is TrendPoint => point !== undefined);
+  };
 
-  return image.addBands(lst);
-};
+  const rows = await reduceCompositesByRegion(
+    periods,
+    ({ start, end }) => compositeByRegion(index, regionIndices, regions, source.filterDate(start, end)),
+    ({ start }) => start,
+    regionCollection,
+    scale,
+    signal,
+    onBatch && ((done) => onBatch(toTrends(done)))
+  );
+  return toTrends(rows);
+}
 
-const calculateLSTMinMax = (image) => {
-  const ndvi = image.select('NDVI');
+// Key of the whole query window among the climatology periods
+const WINDOW_PERIOD = 'window';
 
-  const lst_max = ndvi.multiply(5).add(40).rename('LSTmax');
-  const lst_min = ndvi.multiply(3).add(20).rename('LSTmin');
+// Regional index of each period shifted into every baseline year, fetched in
+// batches of period-years and grouped as "<period key>|<region>" → yearly values
+async function calculateClimatologySamples(
+  source: any,
+  periods: { key: string; start: string; end: string }[],
+  years: number[],
+  index: MoistureIndex,
+  regionIndices: { [key: string]: RegionIndex },
+  regions: { [key: string]: any },
+  regionCollection: any,
+  scale: number,
+  signal?: AbortSignal,
+  onBatch?: () => void
+): Promise<Map<string, number[]>> {
+  const rows = await reduceCompositesByRegion(
+    periods.flatMap((period) => years.map((year) => ({ period, year }))),
+    ({ period, year }) => {
+      const shifted = periodInYear(period, year);
+      return compositeByRegion(index, regionIndices, regions, source.filterDate(shifted.start, shifted.end));
+    },
+    ({ period }) => period.key,
+    regionCollection,
+    scale,
+    signal,
+    onBatch
+  );
 
-  return image.addBands(lst_max).addBands(lst_min);
-};
+  const samples = new Map<string, number[]>();
+  for (const properties of rows) {
+    const value = properties[index];
+    if (value == null) continue;
+
+    const key = `${properties.key}|${properties.name}`;
+    samples.set(key, [...(samples.get(key) ?? []), value]);
+  }
+  return samples;
+}
+
+// CHIRPS daily precipitation (mm/day), ~5.5 km
+const CHIRPS_COLLECTION = 'UCSB-CHG/CHIRPS/DAILY';
+const CHIRPS_SCALE = 5566;
+
+const loadChirps = (startDate: string, endDate: string) =>
+  ee.ImageCollection(CHIRPS_COLLECTION)
+    .filterDate(startDate, endDate)
+    .select(['precipitation']);
+
+export async function calculatePrecipitation(
+  query: PrecipitationQuery
+): Promise<PrecipitationResponse> {
+  const { startDate, endDate, timeStep, region } = query;
+
+  try {
+    await earthEngine.ready();
+
+    const definitions = selectRegions(region);
+    const regions = createRegionCollection(definitions);
+    const chirps = loadChirps(startDate, endDate);
+    const accumulated = chirps.sum();
+    const range = precipitationRange(startDate, endDate);
 
-const calculateSMI = (image) => {
-  const lst = image.select('LST');
-  const lst_max = image.select('LSTmax');
-  const lst_min = image.select('LSTmin');
+    // Window totals and per-period totals come back as one table each
+    const periods = buildPeriods(startDate, endDate, timeStep);
+    const periodTotals = ee.FeatureCollection(periods.map(({ start, end }) =>
+      chirps.filterDate(start, end).sum()
+        .reduceRegions({ collection: regions, reducer: ee.Reducer.mean(), scale: CHIRPS_SCALE })
+        .map((feature: any) => feature.set('date', start))
+    )).flatten();
 
-  const smi = lst_max.subtract(lst).divide(lst_max.subtract(lst_min)).rename('SMI');
-  return image.addBands(smi).copyProperties(image, ['system:time_start']);
+    const [totals, series] = await Promise.all([
+      earthEngine.evaluate(
+        accumulated.reduceRegions({ collection: regions, reducer: ee.Reducer.mean(), scale: CHIRPS_SCALE })
+      ),
+      earthEngine.evaluate(periodTotals)
+    ]);
+
+    const totalByRegion = new Map<string, number>(
+      totals.features.map(({ properties }: any) => [properties.name, properties.mean ?? 0])
+    );
+
+    const trends = periods.map(({ start }) => ({ name: formatPeriodName(start), date: start } as TrendPoint));
+    const trendByDate = new Map(trends.map((point) => [point.date, point]));
+    for (const { properties } of series.features) {
+      const point = trendByDate.get(properties.date);
+      if (point && properties.mean != null) {
+        point[properties.name] = properties.mean;
+      }
+    }
+
+    return {
+      data: definitions.map(({ name, bounds }) => ({
+        region: name,
+        total: totalByRegion.get(name) ?? 0,
+        geometry: boundsToPolygon(bounds)
+      })),
+      trends,
+      range
+    };
+  } catch (error) {
+    console.error("Error calculating precipitation:", error);
+    if (error instanceof ProviderUnavailableError || error instanceof UnsupportedQueryError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to calculate precipitation: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+export async function calculateLandCover(query: LandCoverQuery): Promise<LandCoverResponse> {
+  try {
+    await earthEngine.ready();
+
+    const definitions = selectRegions(query.region);
+    const histograms = await earthEngine.evaluate(
+      loadLandCover().reduceRegions({
+        collection: createRegionCollection(definitions),
+        reducer: ee.Reducer.frequencyHistogram(),
+        scale: LAND_COVER_SCALE
+      })
+    );
+
+    const histogramByRegion = new Map<string, Record<string, number>>(
+      histograms.features.map(({ properties }: any) => [properties.name, properties.histogram ?? {}])
+    );
+
+    return {
+      data: definitions.map(({ name, bounds }) => ({
+        region: name,
+        geometry: boundsToPolygon(bounds),
+        ...landCoverFractions(histogramByRegion.get(name) ?? {})
+      }))
+    };
+  } catch (error) {
+    console.error("Error calculating land cover:", error);
+    if (error instanceof ProviderUnavailableError || error instanceof UnsupportedQueryError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to calculate land cover: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+// The query window's composite in every baseline year
+const yearlyComposites = (
+  query: SoilMoistureQuery,
+  { index, implementation, window, selectedRegions, regionIndices }: Pick<
+    Awaited<ReturnType<typeof prepareIndex>>,
+    'index' | 'implementation' | 'window' | 'selectedRegions' | 'regionIndices'
+  >
+) => {
+  const baseline = getBaseline(query);
+  const climatologySource = loadClimatologySource(implementation, window, baseline);
+
+  return ee.ImageCollection(baselineYears(baseline).map((year) => {
+    const { start, end } = periodInYear({ start: query.startDate, end: query.endDate }, year);
+    return compositeByRegion(index, regionIndices, selectedRegions, climatologySource.filterDate(start, end));
+  }));
 };
 
-export async function calculateSoilMoistureIndex(startDate, endDate, region) {
-  await initialize();
-  
-  const landsat8 = ee.ImageCollection('LANDSAT/LC08/C02/T1_L2')
-      .filterDate(startDate, endDate)
-      .map(calculateNDVI)
-      .map(calculateLST)
-      .map(calculateLSTMinMax)
-      .map(calculateSMI);
-
-  const landsat9 = ee.ImageCollection('LANDSAT/LC09/C02/T1_L2')
-      .filterDate(startDate, endDate)
-      .map(calculateNDVI)
-      .map(calculateLST)
-      .map(calculateLSTMinMax)
-      .map(calculateSMI);
-
-  const mergedCollection = landsat8.merge(landsat9);
-  const meanSMI = mergedCollection.mean();
-
-  const smiValue = await new Promise((resolve, reject) => {
-    meanSMI.reduceRegion({
-      reducer: ee.Reducer.mean(),
-      geometry: region,
-      scale: 30,
-      maxPixels: 1e13
-    }).evaluate((result, error) => error ? reject(error) : resolve(result?.SMI || 0));
+// Per-pixel index classified with the query's scheme, as classify() does
+// for regional values, and clipped to the selected regions
+async function soilMoistureTileImage(query: SoilMoistureQuery) {
+  const {
+    index,
+    implementation,
+    window,
+    selectedRegions,
+    regionCollection,
+    source,
+    regionIndices
+  } = await prepareIndex(query);
+  const scheme = await classificationSchemes.resolve(query.scheme, index);
+  const { wetIsHigh } = moistureIndexInfo[index];
+
+  const current = compositeByRegion(index, regionIndices, selectedRegions, source);
+  let scaled = current;
+
+  if (scheme.basis === 'percentile') {
+    const yearly = yearlyComposites(query, { index, implementation, window, selectedRegions, regionIndices });
+
+    // Per-pixel mid-rank percentile, as percentileOf computes it for regions
+    const years = yearly.count();
+    const below = yearly.map((image: any) => image.lt(current)).sum();
+    const ties = yearly.map((image: any) => image.eq(current)).sum();
+    const percentile = below.add(ties.divide(2)).divide(years).multiply(100)
+      .updateMask(years.gte(MIN_YEARS));
+    scaled = wetIsHigh ? percentile : percentile.multiply(-1).add(100);
+  }
+
+  // Class position: the number of breaks below the value, ties going to the
+  // class farther from the middle one
+  const count = scheme.classes.length;
+  const position = schemeBreaks(scheme, index)
+    .map((bound, i) => (breakIncludedAbove(i, count) ? scaled.gte(bound) : scaled.gt(bound)))
+    .reduce((total: any, test: any) => total.add(test));
+  const reversed = scheme.basis === 'value' && !wetIsHigh;
+  const category = reversed ? position.multiply(-1).add(count - 1) : position;
+
+  return {
+    image: category.clip(regionCollection.geometry()),
+    visParams: {
+      min: 0,
+      max: count - 1,
+      palette: scheme.classes.map(({ color }) => color)
+    }
+  };
+}
+
+// Per-pixel Sen's slope (index units per year) over the trend periods'
+// composites, masked where the Mann–Kendall test is not significant and
+// flipped for indices where higher means drier so wetting reads as positive
+async function trendTileImage(query: TrendAnalysisQuery) {
+  const { index, selectedRegions, regionCollection, source, regionIndices } = await prepareIndex(query);
+  const alpha = query.alpha ?? DEFAULT_ALPHA;
+
+  const series = ee.ImageCollection(
+    buildPeriods(query.startDate, query.endDate, query.timeStep).map(({ start, end }) => {
+      const composite = compositeByRegion(index, regionIndices, selectedRegions, source.filterDate(start, end));
+      return ee.Image(yearsSince(query.startDate, start)).float().rename('t')
+        .updateMask(composite.mask())
+        .addBands(composite);
+    })
+  );
+
+  const slope = series.reduce(ee.Reducer.sensSlope()).select('slope');
+  const pValue = series.reduce(ee.Reducer.kendallsCorrelation(2)).select('p-value');
+  const wetting = moistureIndexInfo[index].wetIsHigh ? slope : slope.multiply(-1);
+  const [min, max] = slopeRange(index);
+
+  return {
+    image: wetting.updateMask(pValue.lte(alpha)).clip(regionCollection.geometry()),
+    visParams: { min, max, palette: SLOPE_PALETTE }
+  };
+}
+
+// Per-pixel difference (after − before) of the two windows' composites, and
+// where it is significant by Welch's statistic over each window's period
+// composites, as analyzeRegionChanges tests regional values
+async function changeImages(query: ChangeAnalysisQuery, signal?: AbortSignal) {
+  const windows = changeWindowQueries(query);
+  const [before, after] = await Promise.all([prepareIndex(windows.before, signal), prepareIndex(windows.after, signal)]);
+  const alpha = query.alpha ?? DEFAULT_ALPHA;
+
+  const window = (
+    { index, regionIndices, selectedRegions, source }: Awaited<ReturnType<typeof prepareIndex>>,
+    { startDate, endDate, timeStep }: SoilMoistureQuery
+  ) => {
+    const series = ee.ImageCollection(buildPeriods(startDate, endDate, timeStep).map(({ start, end }) =>
+      compositeByRegion(index, regionIndices, selectedRegions, source.filterDate(start, end))
+    ));
+    return {
+      composite: compositeByRegion(index, regionIndices, selectedRegions, source),
+      mean: series.mean(),
+      variance: series.reduce(ee.Reducer.sampleVariance()),
+      count: series.count()
+    };
+  };
+  const earlier = window(before, windows.before);
+  const later = window(after, windows.after);
+
+  const difference = later.composite.subtract(earlier.composite);
+  const standardError = earlier.variance.divide(earlier.count)
+    .add(later.variance.divide(later.count))
+    .sqrt();
+  const t = later.mean.subtract(earlier.mean).divide(standardError);
+  const significant = t.abs().gt(normalQuantile(1 - alpha / 2))
+    .and(earlier.count.gte(2))
+    .and(later.count.gte(2));
+
+  return {
+    index: after.index,
+    scale: after.scale,
+    regionCollection: after.regionCollection,
+    difference,
+    // Positive where the later window is wetter
+    wetting: moistureIndexInfo[after.index].wetIsHigh ? difference : difference.multiply(-1),
+    significant
+  };
+}
+
+// Per-pixel z-score of the window against the same window in the baseline
+// years, shown where it is beyond the threshold, as detectAnomalies flags
+// regional values
+async function anomalyTileImage(query: AnomalyAnalysisQuery) {
+  const prepared = await prepareIndex(query);
+  const { index, selectedRegions, regionCollection, source, regionIndices } = prepared;
+  const threshold = query.threshold ?? DEFAULT_THRESHOLD;
+
+  const current = compositeByRegion(index, regionIndices, selectedRegions, source);
+  const yearly = yearlyComposites(query, prepared);
+  const zScore = current.subtract(yearly.mean())
+    .divide(yearly.reduce(ee.Reducer.sampleStdDev()))
+    .updateMask(yearly.count().gte(MIN_YEARS));
+  const [min, max] = ANOMALY_RANGE;
+
+  return {
+    // Positive where wetter than usual, like the palette
+    image: (moistureIndexInfo[index].wetIsHigh ? zScore : zScore.multiply(-1))
+      .updateMask(zScore.abs().gte(threshold))
+      .clip(regionCollection.geometry()),
+    visParams: { min, max, palette: ANOMALY_PALETTE }
+  };
+}
+
+async function changeTileImage(query: ChangeAnalysisQuery) {
+  const { index, regionCollection, wetting } = await changeImages(query);
+  const [min, max] = differenceRange(index);
+
+  return {
+    image: wetting.clip(regionCollection.geometry()),
+    visParams: { min, max, palette: CHANGE_PALETTE }
+  };
+}
+
+// Area (km²) of every region and of its pixels with significant wetting or
+// drying, in one round trip
+export async function calculateChangeAreas(query: ChangeAnalysisQuery, signal?: AbortSignal): Promise<ChangeArea[]> {
+  try {
+    await earthEngine.ready();
+    const { scale, regionCollection, wetting, significant } = await changeImages(query, signal);
+
+    const area = ee.Image.pixelArea().divide(1e6);
+    const table = await earthEngine.evaluate(
+      area.rename('total')
+        .addBands(area.multiply(significant.and(wetting.gt(0))).unmask(0).rename('wetting'))
+        .addBands(area.multiply(significant.and(wetting.lt(0))).unmask(0).rename('drying'))
+        .reduceRegions({
+          collection: regionCollection,
+          reducer: ee.Reducer.sum(),
+          scale
+        }),
+      signal
+    );
+
+    return table.features.map(({ properties }: any) => ({
+      region: properties.name,
+      total: properties.total ?? 0,
+      wetting: properties.wetting ?? 0,
+      drying: properties.drying ?? 0
+    }));
+  } catch (error) {
+    console.error("Error calculating change areas:", error);
+    if (error instanceof ProviderUnavailableError || error instanceof UnsupportedQueryError) {
+      throw error;
+    }
+    throw new Error(
+      `Failed to calculate change areas: ${error instanceof Error ? error.message : 'Unknown error'}`
+    );
+  }
+}
+
+// How far back the availability check looks for acquisitions
+const ACQUISITION_LOOKBACK_DAYS = 60;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Date of the latest acquisition of an index's source imagery over each
+// region, in one round trip
+export async function calculateLatestAcquisitions(index: MoistureIndex): Promise<Map<string, string>> {
+  await earthEngine.ready();
+  const today = new Date();
+  const source = getIndex(index).load({
+    startDate: new Date(today.getTime() - ACQUISITION_LOOKBACK_DAYS * DAY_MS).toISOString().slice(0, 10),
+    endDate: today.toISOString().slice(0, 10),
+    masking: DEFAULT_MASKING
+  });
+
+  const table = await earthEngine.evaluate(
+    createRegionCollection(regionDefinitions).map((feature: any) => feature.set(
+      'latest',
+      source.filterBounds(feature.geometry()).aggregate_max('system:time_start')
+    ))
+  );
+
+  return new Map<string, string>(table.features
+    .filter(({ properties }: any) => properties.latest != null)
+    .map(({ properties }: any) => [properties.name, new Date(properties.latest).toISOString().slice(0, 10)]));
+}
+
+// Map tile URL templates by layer and query; Earth Engine keeps map IDs
+// alive for a while, so they are reused for an hour. Insertion order doubles
+// as recency order, so once there are too many the least recently used go.
+const MAP_ID_LIFETIME_MS = 60 * 60 * 1000;
+const MAX_MAP_URLS = 500;
+
+const mapUrls = new Map<string, { urlFormat: Promise<string>; expires: number }>();
+
+async function createMapUrl(request: TileRequest): Promise<string> {
+  switch (request.layer) {
+    case 'soil-moisture': {
+      const { image, visParams } = await soilMoistureTileImage(request.query);
+      return earthEngine.getTileUrl(image, visParams);
+    }
+    case 'precipitation': {
+      const { startDate, endDate, region } = request.query;
+      const [min, max] = precipitationRange(startDate, endDate);
+      const regions = createRegionCollection(selectRegions(region));
+      return earthEngine.getTileUrl(
+        loadChirps(startDate, endDate).sum().clip(regions.geometry()),
+        { min, max, palette: PRECIPITATION_PALETTE }
+      );
+    }
+    case 'landcover': {
+      const { image, visParams } = visualizeLandCover();
+      const regions = createRegionCollection(selectRegions(request.query.region));
+      return earthEngine.getTileUrl(image.clip(regions.geometry()), visParams);
+    }
+    case 'trend': {
+      const { image, visParams } = await trendTileImage(request.query);
+      return earthEngine.getTileUrl(image, visParams);
+    }
+    case 'change': {
+      const { image, visParams } = await changeTileImage(request.query);
+      return earthEngine.getTileUrl(image, visParams);
+    }
+    case 'anomaly': {
+      const { image, visParams } = await anomalyTileImage(request.query);
+      return earthEngine.getTileUrl(image, visParams);
+    }
+  }
+}
+
+function getMapUrl(request: TileRequest): Promise<string> {
+  const key = JSON.stringify(request);
+  const now = Date.now();
+  mapUrls.forEach((entry, entryKey) => {
+    if (entry.expires <= now) mapUrls.delete(entryKey);
+  });
+
+  const cached = mapUrls.get(key);
+  if (cached) {
+    mapUrls.delete(key);
+    mapUrls.set(key, cached);
+    return cached.urlFormat;
+  }
+
+  const entry = { urlFormat: createMapUrl(request), expires: now + MAP_ID_LIFETIME_MS };
+  mapUrls.set(key, entry);
+  Array.from(mapUrls.keys())
+    .slice(0, Math.max(0, mapUrls.size - MAX_MAP_URLS))
+    .forEach((oldest) => mapUrls.delete(oldest));
+  // Failed registrations are retried on the next tile
+  entry.urlFormat.catch(() => {
+    if (mapUrls.get(key) === entry) mapUrls.delete(key);
   });
+  return entry.urlFormat;
+}
+
+// Build the closed ring for a bounding box locally instead of asking Earth Engine
+function boundsToPolygon([west, south, east, north]: number[]) {
+  return {
+    type: "Polygon" as const,
+    coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+  };
+}
+
+function getRegionBoundaries(definitions: RegionDefinition[]): RegionFeature[] {
+  return definitions.map(({ id, name, bounds }) => ({
+    type: "Feature",
+    properties: { id, name },
+    geometry: boundsToPolygon(bounds)
+  }));
+}
 
-  return { value: smiValue, status: `Soil Moisture Index: ${smiValue}` };
+export class EarthEngineProvider implements SoilMoistureProvider {
+  readonly name = 'earthengine';
+
+  async start(): Promise<void> {
+    await earthEngine.start();
+  }
+
+  getStatus(): ProviderStatus {
+    return earthEngine.getStatus();
+  }
+
+  async getRegions(): Promise<RegionInfo[]> {
+    return regionDefinitions.map(({ id, name }) => ({ id, name }));
+  }
+
+  async getIndices(): Promise<MoistureIndex[]> {
+    return listIndices();
+  }
+
+  getSoilMoisture(
+    query: SoilMoistureQuery,
+    signal?: AbortSignal,
+    onProgress?: (progress: QueryProgress) => void
+  ): Promise<SoilMoistureResponse> {
+    return calculateSoilMoistureIndex(query, signal, onProgress);
+  }
+
+  getPrecipitation(query: PrecipitationQuery): Promise<PrecipitationResponse> {
+    return calculatePrecipitation(query);
+  }
+
+  getLandCover(query: LandCoverQuery): Promise<LandCoverResponse> {
+    return calculateLandCover(query);
+  }
+
+  getChangeAreas(query: ChangeAnalysisQuery, signal?: AbortSignal): Promise<ChangeArea[]> {
+    return calculateChangeAreas(query, signal);
+  }
+
+  getLatestAcquisitions(index: MoistureIndex): Promise<Map<string, string>> {
+    return calculateLatestAcquisitions(index);
+  }
+
+  async getTile(request: TileRequest, tile: TileCoordinates): Promise<Buffer> {
+    await earthEngine.ready();
+    return fetchTile(await getMapUrl(request), tile);
+  }
 }
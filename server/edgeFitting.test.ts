@@ -0,0 +1,36 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { fitEdgesFromBins, type NdviBin } from "./edgeFitting";
+import { UnsupportedQueryError } from "./errors";
+
+// Bins whose hottest pixel falls and coldest pixel rises with NDVI, as in a
+// typical LST–NDVI triangle
+const triangle = (count = 50): NdviBin[] =>
+  [0.1, 0.3, 0.5, 0.7].map((ndvi) => ({ ndvi, max: 50 - 20 * ndvi, min: 10 + 10 * ndvi, count }));
+
+describe("fitEdgesFromBins", () => {
+  test("fits the dry edge to the maxima and the wet edge to the minima for LST", () => {
+    const { dry, wet, bins } = fitEdgesFromBins(triangle(), "max");
+    assert.equal(bins, 4);
+    assert.ok(Math.abs(dry.slope + 20) < 1e-9);
+    assert.ok(Math.abs(dry.intercept - 50) < 1e-9);
+    assert.ok(Math.abs(wet.slope - 10) < 1e-9);
+    assert.ok(Math.abs(wet.intercept - 10) < 1e-9);
+  });
+
+  test("swaps the extremes when the dry edge is the minimum", () => {
+    const { dry, wet } = fitEdgesFromBins(triangle(), "min");
+    assert.ok(Math.abs(dry.slope - 10) < 1e-9);
+    assert.ok(Math.abs(wet.slope + 20) < 1e-9);
+  });
+
+  test("ignores bins with too few pixels", () => {
+    const bins = [...triangle(), { ndvi: 0.8, max: 1000, min: -1000, count: 3 }];
+    assert.equal(fitEdgesFromBins(bins, "max").bins, 4);
+  });
+
+  test("rejects a scatter too sparse to fit as an unsupported query", () => {
+    assert.throws(() => fitEdgesFromBins(triangle(5), "max"), UnsupportedQueryError);
+    assert.throws(() => fitEdgesFromBins([], "max"), UnsupportedQueryError);
+  });
+});
@@ -0,0 +1,98 @@
+import ee from '@google/earthengine';
+import type { DryWetEdges } from '@shared/schema';
+import { earthEngine } from './earthEngineClient';
+import { UnsupportedQueryError } from './errors';
+import { linearRegression } from './statistics';
+
+// NDVI range and bin width used to sample the NDVI scatter
+const NDVI_MIN = 0.05;
+const NDVI_MAX = 0.85;
+const BIN_WIDTH = 0.02;
+
+// Bins with fewer pixels than this are too noisy to define an extreme
+const MIN_BIN_PIXELS = 20;
+
+// Edge regression needs at least this many populated bins
+const MIN_BINS = 3;
+
+// The scatter does not need full Landsat resolution
+const EDGE_SCALE = 120;
+
+export interface NdviBin {
+  ndvi: number;
+  min: number;
+  max: number;
+  count: number;
+}
+
+export interface EdgeOptions {
+  // Band plotted against NDVI, e.g. LST (°C) or OPTRAM's transformed reflectance
+  band: string;
+  // Which extreme of the band marks the dry edge: hot pixels for LST, bright
+  // (low transformed reflectance) pixels for OPTRAM
+  dryEdge: 'max' | 'min';
+}
+
+export const LST_EDGES: EdgeOptions = { band: 'LST', dryEdge: 'max' };
+
+// Regress the per-bin dry extreme (dry edge) and wet extreme (wet edge)
+// against the bin's NDVI. Too sparse a scatter (e.g. a short, cloudy window)
+// is a limit of the query rather than a failure, so it answers 400.
+export function fitEdgesFromBins(bins: NdviBin[], dryEdge: EdgeOptions['dryEdge']): DryWetEdges {
+  const usable = bins.filter(({ count }) => count >= MIN_BIN_PIXELS);
+  if (usable.length < MIN_BINS) {
+    throw new UnsupportedQueryError(
+      `Not enough NDVI samples to fit dry/wet edges (${usable.length} usable bins)`
+    );
+  }
+
+  const wetEdge = dryEdge === 'max' ? 'min' : 'max';
+  const ndvi = usable.map((bin) => bin.ndvi);
+  const dry = linearRegression(ndvi, usable.map((bin) => bin[dryEdge]));
+  const wet = linearRegression(ndvi, usable.map((bin) => bin[wetEdge]));
+
+  return { dry, wet, bins: usable.length };
+}
+
+// Fit the dry and wet edges of the triangle from a composite with an NDVI
+// band and the edge band over the given geometry
+export async function fitDryWetEdges(
+  composite: any,
+  geometry: any,
+  options: EdgeOptions = LST_EDGES,
+  signal?: AbortSignal
+): Promise<DryWetEdges> {
+  const ndvi = composite.select('NDVI');
+  const inRange = ndvi.gte(NDVI_MIN).and(ndvi.lt(NDVI_MAX));
+  const bin = ndvi.subtract(NDVI_MIN).divide(BIN_WIDTH).floor().int().rename('bin');
+
+  const samples = composite.select(options.band).addBands(bin).updateMask(inRange);
+
+  const result = await earthEngine.evaluate<{ groups: any[] }>(
+    samples.reduceRegion({
+      reducer: ee.Reducer.minMax()
+        .combine(ee.Reducer.count(), null, true)
+        .group(1, 'bin'),
+      geometry,
+      scale: EDGE_SCALE,
+      maxPixels: 1e13,
+      bestEffort: true
+    }),
+    signal
+  );
+
+  const bins: NdviBin[] = (result?.groups ?? []).map((group: any) => ({
+    ndvi: NDVI_MIN + (group.bin + 0.5) * BIN_WIDTH,
+    min: group.min,
+    max: group.max,
+    count: group.count
+  }));
+
+  return fitEdgesFromBins(bins, options.dryEdge);
+}
+
+// Per-pixel value of the edge band at the dry and wet edges for the pixel's NDVI
+export const edgeImages = (ndvi: any, edges: DryWetEdges) => ({
+  dry: ndvi.multiply(edges.dry.slope).add(edges.dry.intercept),
+  wet: ndvi.multiply(edges.wet.slope).add(edges.wet.intercept)
+});
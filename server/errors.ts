@@ -0,0 +1,18 @@
+// Raised when the configured data provider cannot serve requests right now,
+// e.g. Earth Engine failed to authenticate. Routes answer these with a 503.
+export class ProviderUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProviderUnavailableError';
+  }
+}
+
+// Raised when a valid query asks for something the configured provider
+// cannot serve, e.g. an index missing from the fixture directory. Routes
+// answer these with a 400.
+export class UnsupportedQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsupportedQueryError';
+  }
+}
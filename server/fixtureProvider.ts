@@ -0,0 +1,408 @@
+import fs from "fs";
+import path from "path";
+import { DEFAULT_INDEX, moistureIndices, type MoistureIndex } from "@shared/indices";
+import { landCoverClasses, landCoverFractions } from "@shared/landCover";
+import { assessConfidence } from "@shared/quality";
+import { getSlopeColor, slopeRange } from "@shared/trends";
+import { differenceRange, getDifferenceColor } from "@shared/change";
+import { getAnomalyColor } from "@shared/anomaly";
+import type {
+  ChangeAnalysisQuery,
+  ChangeArea,
+  DataQuality,
+  LandCoverQuery,
+  LandCoverResponse,
+  PrecipitationQuery,
+  PrecipitationResponse,
+  RegionFeature,
+  RegionInfo,
+  SoilMoistureQuery,
+  SoilMoistureResponse,
+  SoilMoistureResult,
+  TileCoordinates,
+  TrendPoint,
+} from "@shared/schema";
+import type { ProviderStatus, SoilMoistureProvider } from "./provider";
+import { DEFAULT_THRESHOLD } from "./analyses/anomaly";
+import { analyzeRegionChanges, changeWindowQueries, geometryArea } from "./analyses/change";
+import { analyzeRegionTrends, DEFAULT_ALPHA } from "./analyses/trend";
+import { classifySoilMoisture } from "./classification";
+import { classificationSchemes } from "./classificationSchemes";
+import { UnsupportedQueryError } from "./errors";
+import { anomalyTrends, baselineYears, compareWithClimatology, getBaseline, periodInYear } from "./climatology";
+import { buildPeriods, formatPeriodName, type Period } from "./periods";
+import { getPrecipitationColor, precipitationRange } from "@shared/precipitation";
+import { renderRegionTile, type ColoredRegion, type TileRequest } from "./tiles";
+import { mean } from "./statistics";
+
+export interface FixtureObservation {
+  date: string;
+  value: number;
+  maskedFraction?: number;
+  // Share and number of the region's pixels observed, and their spread
+  validFraction?: number;
+  validPixels?: number;
+  stdDev?: number;
+}
+
+type FixtureSeries = Record<string, FixtureObservation[]>;
+
+// Precipitation accumulated (mm) over the days from `date` up to the next entry
+export interface FixtureRainfall {
+  date: string;
+  total: number;
+}
+
+type FixtureRainfallSeries = Record<string, FixtureRainfall[]>;
+
+// Pixel counts (or shares) per WorldCover class code, per region
+type FixtureLandCover = Record<string, Record<string, number>>;
+
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+const within = <T extends { date: string }>(observations: T[], start: string, end: string) =>
+  observations.filter(({ date }) => date >= start && date < end);
+
+const dayAfter = (date: string) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().slice(0, 10);
+};
+
+// The default index lives in soil-moisture.json, others in soil-moisture.<INDEX>.json
+const seriesFileName = (index: MoistureIndex) =>
+  index === DEFAULT_INDEX ? "soil-moisture.json" : `soil-moisture.${index}.json`;
+
+// Each observation is one scene. The window's composite covers at least what
+// its best scene did; without coverage figures a scene counts as covering
+// whatever masking left of the region.
+const windowQuality = (observations: FixtureObservation[]): DataQuality => {
+  const validFraction = Math.max(
+    0,
+    ...observations.map((o) => o.validFraction ?? 1 - (o.maskedFraction ?? 0)),
+  );
+  const pixels = observations.flatMap((o) => (o.validPixels === undefined ? [] : [o.validPixels]));
+  const spreads = observations.flatMap((o) => (o.stdDev === undefined ? [] : [o.stdDev]));
+
+  return {
+    scenes: observations.length,
+    acquisitionDates: Array.from(new Set(observations.map((o) => o.date))).sort(),
+    validPixels: pixels.length > 0 ? Math.max(...pixels) : undefined,
+    validFraction,
+    stdDev: spreads.length > 0 ? mean(spreads) : undefined,
+    ...assessConfidence({ scenes: observations.length, validFraction }),
+  };
+};
+
+// Serves soil moisture from files in a local directory so the API works
+// without Earth Engine credentials. The directory holds:
+//   regions.geojson             FeatureCollection with `id` and `name` properties
+//   soil-moisture.json          default index (NDMI) series:
+//                               { [regionId]: [{ date: "YYYY-MM-DD", value, maskedFraction?,
+//                                 validFraction?, validPixels?, stdDev? }] }
+//   soil-moisture.<INDEX>.json  optional series for other indices, same format
+//   precipitation.json          optional rainfall totals:
+//                               { [regionId]: [{ date: "YYYY-MM-DD", total }] }
+//   landcover.json              optional WorldCover class counts:
+//                               { [regionId]: { [classCode]: count } }
+// Map tiles paint each region with the color of its class, as the files
+// hold no per-pixel data. Values are taken as already masked, so the masking
+// flags only affect Earth Engine queries; the series are regional means, so
+// they cannot be restricted to land cover classes.
+export class FixtureProvider implements SoilMoistureProvider {
+  readonly name = "fixture";
+  private regions?: RegionFeature[];
+  private series = new Map<MoistureIndex, FixtureSeries>();
+  private rainfall?: FixtureRainfallSeries;
+  private landCover?: FixtureLandCover;
+  private lastError?: Error;
+
+  constructor(private readonly directory: string) {}
+
+  async start(): Promise<void> {
+    try {
+      await this.loadRegions();
+      await this.loadSeries(DEFAULT_INDEX);
+    } catch (error) {
+      this.lastError = error instanceof Error ? error : new Error(String(error));
+      throw this.lastError;
+    }
+  }
+
+  getStatus(): ProviderStatus {
+    if (this.regions) return { state: "ready" };
+    return this.lastError ? { state: "failed", error: this.lastError.message } : { state: "idle" };
+  }
+
+  private async loadRegions(): Promise<RegionFeature[]> {
+    if (!this.regions) {
+      const file = await fs.promises.readFile(path.join(this.directory, "regions.geojson"), "utf-8");
+      this.regions = JSON.parse(file).features as RegionFeature[];
+    }
+    return this.regions;
+  }
+
+  private async loadSeries(index: MoistureIndex): Promise<FixtureSeries> {
+    const cached = this.series.get(index);
+    if (cached) return cached;
+
+    const file = path.join(this.directory, seriesFileName(index));
+    if (!fs.existsSync(file)) {
+      throw new UnsupportedQueryError(`The fixture data has no ${index} series`);
+    }
+
+    const series: FixtureSeries = JSON.parse(await fs.promises.readFile(file, "utf-8"));
+    for (const observations of Object.values(series)) {
+      observations.sort((a, b) => a.date.localeCompare(b.date));
+    }
+    this.series.set(index, series);
+    return series;
+  }
+
+  private async loadRainfall(): Promise<FixtureRainfallSeries> {
+    if (this.rainfall) return this.rainfall;
+
+    const file = path.join(this.directory, "precipitation.json");
+    if (!fs.existsSync(file)) {
+      throw new UnsupportedQueryError("The fixture data has no precipitation series");
+    }
+
+    this.rainfall = JSON.parse(await fs.promises.readFile(file, "utf-8")) as FixtureRainfallSeries;
+    return this.rainfall;
+  }
+
+  private async loadLandCover(): Promise<FixtureLandCover> {
+    if (this.landCover) return this.landCover;
+
+    const file = path.join(this.directory, "landcover.json");
+    if (!fs.existsSync(file)) {
+      throw new UnsupportedQueryError("The fixture data has no land cover");
+    }
+
+    this.landCover = JSON.parse(await fs.promises.readFile(file, "utf-8")) as FixtureLandCover;
+    return this.landCover;
+  }
+
+  private selectRegions(regions: RegionFeature[], region?: string): RegionFeature[] {
+    if (!region || region === "entire") {
+      return regions;
+    }
+    const selected = regions.filter(({ properties: { id, name } }) => id === region || name === region);
+    if (selected.length === 0) {
+      throw new UnsupportedQueryError(`Unknown region "${region}"`);
+    }
+    return selected;
+  }
+
+  async getRegions(): Promise<RegionInfo[]> {
+    const regions = await this.loadRegions();
+    return regions.map(({ properties: { id, name } }) => ({ id, name }));
+  }
+
+  async getIndices(): Promise<MoistureIndex[]> {
+    return moistureIndices.filter((index) =>
+      fs.existsSync(path.join(this.directory, seriesFileName(index))),
+    );
+  }
+
+  async getSoilMoisture(query: SoilMoistureQuery, signal?: AbortSignal): Promise<SoilMoistureResponse> {
+    if (query.landCover) {
+      throw new UnsupportedQueryError("The fixture data cannot be restricted to land cover classes");
+    }
+
+    const index = query.index ?? DEFAULT_INDEX;
+    const scheme = await classificationSchemes.resolve(query.scheme, index);
+    const [regions, series] = await Promise.all([this.loadRegions(), this.loadSeries(index)]);
+    signal?.throwIfAborted();
+    const selected = this.selectRegions(regions, query.region);
+
+    const end = dayAfter(query.endDate);
+    const baseline = getBaseline(query);
+    const years = baselineYears(baseline);
+
+    // Mean of the same calendar window in every baseline year with observations
+    const yearlyMeans = (observations: FixtureObservation[], period: Period) =>
+      years
+        .map((year) => periodInYear(period, year))
+        .map(({ start, end }) => within(observations, start, end))
+        .filter((values) => values.length > 0)
+        .map((values) => mean(values.map((o) => o.value)));
+
+    const data: SoilMoistureResult[] = selected.map((feature) => {
+      const observations = series[feature.properties.id] ?? [];
+      const current = within(observations, query.startDate, end);
+      const value = current.length > 0 ? mean(current.map((o) => o.value)) : null;
+      const samples = yearlyMeans(observations, { start: query.startDate, end });
+      const climatology = value !== null ? compareWithClimatology(value, samples) : undefined;
+      const average = climatology?.mean ?? mean(samples);
+      const masked = current.filter((o) => o.maskedFraction !== undefined);
+
+      return {
+        region: feature.properties.name,
+        value,
+        average,
+        ...classifySoilMoisture(scheme, index, value, climatology),
+        date: query.endDate,
+        geometry: feature.geometry,
+        maskedFraction:
+          masked.length > 0 ? mean(masked.map((o) => o.maskedFraction as number)) : undefined,
+        climatology,
+        quality: windowQuality(current),
+      };
+    });
+
+    const periods = buildPeriods(query.startDate, query.endDate, query.timeStep);
+    const trends: TrendPoint[] = [];
+    for (const period of periods) {
+      const point: TrendPoint = { name: formatPeriodName(period.start), date: period.start };
+      let observed = false;
+
+      for (const feature of selected) {
+        const values = within(series[feature.properties.id] ?? [], period.start, period.end);
+        if (values.length > 0) {
+          point[feature.properties.name] = mean(values.map((o) => o.value));
+          observed = true;
+        }
+      }
+
+      // Like the Earth Engine trends, only periods with acquisitions are reported
+      if (observed) {
+        trends.push(point);
+      }
+    }
+
+    const periodByStart = new Map(periods.map((period) => [period.start, period]));
+    const idByName = new Map(selected.map(({ properties: { id, name } }) => [name, id]));
+    const anomalies = anomalyTrends(trends, (date, region) =>
+      yearlyMeans(series[idByName.get(region) ?? ""] ?? [], periodByStart.get(date)!),
+    );
+
+    return { index, data, regions: selected, trends, baseline, anomalies };
+  }
+
+  // Totals are summed from the entries starting inside the window, so the
+  // file's cadence sets the temporal resolution; there is no raster tile layer
+  async getPrecipitation(query: PrecipitationQuery): Promise<PrecipitationResponse> {
+    const [regions, rainfall] = await Promise.all([this.loadRegions(), this.loadRainfall()]);
+    const selected = this.selectRegions(regions, query.region);
+    const end = dayAfter(query.endDate);
+
+    const data = selected.map((feature) => ({
+      region: feature.properties.name,
+      total: sum(within(rainfall[feature.properties.id] ?? [], query.startDate, end).map((r) => r.total)),
+      geometry: feature.geometry,
+    }));
+
+    const trends = buildPeriods(query.startDate, query.endDate, query.timeStep).map((period) => {
+      const point: TrendPoint = { name: formatPeriodName(period.start), date: period.start };
+      for (const feature of selected) {
+        const entries = within(rainfall[feature.properties.id] ?? [], period.start, period.end);
+        point[feature.properties.name] = sum(entries.map((r) => r.total));
+      }
+      return point;
+    });
+
+    return { data, trends, range: precipitationRange(query.startDate, query.endDate) };
+  }
+
+  async getLandCover(query: LandCoverQuery): Promise<LandCoverResponse> {
+    const [regions, landCover] = await Promise.all([this.loadRegions(), this.loadLandCover()]);
+
+    return {
+      data: this.selectRegions(regions, query.region).map((feature) => ({
+        region: feature.properties.name,
+        geometry: feature.geometry,
+        ...landCoverFractions(landCover[feature.properties.id] ?? {}),
+      })),
+    };
+  }
+
+  // The series is read again, so observations appended to its file count as
+  // new imagery, and later queries include them
+  async getLatestAcquisitions(index: MoistureIndex): Promise<Map<string, string>> {
+    this.series.delete(index);
+    const [regions, series] = await Promise.all([this.loadRegions(), this.loadSeries(index)]);
+
+    const latest = new Map<string, string>();
+    for (const { properties: { id, name } } of regions) {
+      const observations = series[id] ?? [];
+      if (observations.length > 0) latest.set(name, observations[observations.length - 1].date);
+    }
+    return latest;
+  }
+
+  // Without pixels, a region with a significant change counts as a whole
+  async getChangeAreas(query: ChangeAnalysisQuery, signal?: AbortSignal): Promise<ChangeArea[]> {
+    const windows = changeWindowQueries(query);
+    const [before, after] = await Promise.all([
+      this.getSoilMoisture(windows.before, signal),
+      this.getSoilMoisture(windows.after, signal),
+    ]);
+
+    return analyzeRegionChanges(before, after, query.alpha ?? DEFAULT_ALPHA).map(({ region, geometry, direction }) => {
+      const total = geometryArea(geometry);
+      return {
+        region,
+        total,
+        wetting: direction === "wetting" ? total : 0,
+        drying: direction === "drying" ? total : 0,
+      };
+    });
+  }
+
+  async getTile(request: TileRequest, tile: TileCoordinates): Promise<Buffer> {
+    return renderRegionTile(await this.colorRegions(request), tile);
+  }
+
+  private async colorRegions(request: TileRequest): Promise<ColoredRegion[]> {
+    switch (request.layer) {
+      case "soil-moisture": {
+        const { index, data } = await this.getSoilMoisture(request.query);
+        const { classes } = await classificationSchemes.resolve(request.query.scheme, index);
+        return data.flatMap(({ category, geometry }) => {
+          const match = classes.find(({ id }) => id === category);
+          return match ? [{ geometry, color: match.color }] : [];
+        });
+      }
+      case "precipitation": {
+        const { data, range } = await this.getPrecipitation(request.query);
+        return data.map(({ total, geometry }) => ({ geometry, color: getPrecipitationColor(total, range) }));
+      }
+      case "landcover": {
+        const { data } = await this.getLandCover(request.query);
+        return data.map(({ dominant, geometry }) => ({ geometry, color: landCoverClasses[dominant].color }));
+      }
+      case "trend": {
+        // Regions with a significant trend, in the color of their slope
+        const { alpha = DEFAULT_ALPHA, ...query } = request.query;
+        const result = await this.getSoilMoisture(query);
+        const range = slopeRange(result.index);
+        return analyzeRegionTrends(result, query.startDate, alpha).flatMap(({ significant, slope, geometry }) =>
+          significant ? [{ geometry, color: getSlopeColor(slope, result.index, range) }] : [],
+        );
+      }
+      case "change": {
+        // Every region observed in both windows in the color of its difference
+        const windows = changeWindowQueries(request.query);
+        const [before, after] = await Promise.all([this.getSoilMoisture(windows.before), this.getSoilMoisture(windows.after)]);
+        const range = differenceRange(after.index);
+        return after.data.flatMap(({ region, value, geometry }) => {
+          const earlier = before.data.find((result) => result.region === region)?.value;
+          return value !== null && earlier != null
+            ? [{ geometry, color: getDifferenceColor(value - earlier, after.index, range) }]
+            : [];
+        });
+      }
+      case "anomaly": {
+        // Regions whose window is beyond the threshold, in the color of its z-score
+        const { threshold = DEFAULT_THRESHOLD, perPixel, ...query } = request.query;
+        const { index, data } = await this.getSoilMoisture(query);
+        return data.flatMap(({ climatology, geometry }) =>
+          climatology && Math.abs(climatology.zScore) >= threshold
+            ? [{ geometry, color: getAnomalyColor(climatology.zScore, index) }]
+            : [],
+        );
+      }
+    }
+  }
+}
@@ -19,11 +19,16 @@ declare module '@google/earthengine' {
   };
 
   const ImageCollection: {
-    (name: string): {
+    (name: string | any[]): {
       filterDate(startDate: string, endDate: string): any;
       select(bands: string[]): any;
       map(callback: (image: any) => any): any;
       mean(): any;
+      first(): any;
+      mosaic(): any;
+      count(): any;
+      sum(): any;
+      reduce(reducer: any): any;
     };
   };
 
@@ -33,6 +38,8 @@ declare module '@google/earthengine' {
       subtract(other: any): any;
       divide(other: any): any;
       rename(name: string): any;
+      float(): any;
+      updateMask(mask: any): any;
       reduceRegion(params: {
         reducer: any;
         geometry: any;
@@ -40,10 +47,15 @@ declare module '@google/earthengine' {
         maxPixels: number;
       }): any;
     };
+    pixelArea(): any;
   };
 
   const Feature: {
-    (geometry: null, properties: { [key: string]: any }): any;
+    (geometry: any, properties: { [key: string]: any }): any;
+  };
+
+  const FeatureCollection: {
+    (features: any): any;
   };
 
   const Date: {
@@ -52,8 +64,23 @@ declare module '@google/earthengine' {
     };
   };
 
+  const Filter: {
+    eq(name: string, value: any): any;
+    listContains(name: string, value: any): any;
+  };
+
   const Reducer: {
     mean(): any;
+    minMax(): any;
+    count(): any;
+    sum(): any;
+    stdDev(): any;
+    sampleVariance(): any;
+    sampleStdDev(): any;
+    percentile(percentiles: number[]): any;
+    frequencyHistogram(): any;
+    sensSlope(): any;
+    kendallsCorrelation(numInputs?: number): any;
   };
 
   export default {
@@ -63,7 +90,9 @@ declare module '@google/earthengine' {
     ImageCollection,
     Image,
     Feature,
+    FeatureCollection,
     Date,
+    Filter,
     Reducer
   };
 }
\ No newline at end of file
@@ -1,5 +1,6 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { provider } from "./provider";
 import { setupVite, serveStatic, log } from "./vite";
 
 // Debug environment variables for Earth Engine
@@ -64,7 +65,11 @@ app.use((req, res, next) => {
 (async () => {
   // Debug Earth Engine environment variables before initializing routes
   debugEarthEngineEnvVars();
-  
+
+  // Authenticate once at startup; requests arriving meanwhile wait for it.
+  // A failure is reported through /api/status and retried on later requests.
+  provider.start().catch(() => {});
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
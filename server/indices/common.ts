@@ -0,0 +1,23 @@
+import { loadLandsat, maskedFractionImage } from '../landsat';
+import type { IndexImplementation } from './types';
+
+// Keep the acquisition time on derived images so they can be filtered by date
+export const withTime = (result: any, image: any) =>
+  result.set('system:time_start', image.get('system:time_start'));
+
+export const calculateNDVI = (image: any) => {
+  return image.normalizedDifference(['SR_B5', 'SR_B4']).rename('NDVI');
+};
+
+// Land surface temperature in °C. ST_B10 is already the emissivity-corrected
+// Collection 2 surface temperature, so only the Kelvin offset remains.
+export const calculateLST = (image: any) => {
+  return image.select('ST_B10').subtract(273.15).rename('LST');
+};
+
+// Source shared by every index computed from Landsat 8/9 surface reflectance
+export const landsatSource: Pick<IndexImplementation, 'scale' | 'load' | 'maskedFraction'> = {
+  scale: 30,
+  load: ({ startDate, endDate, masking }) => loadLandsat(startDate, endDate, masking),
+  maskedFraction: maskedFractionImage
+};
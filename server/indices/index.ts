@@ -0,0 +1,25 @@
+import { moistureIndices, type MoistureIndex } from '@shared/indices';
+import { ndmi } from './ndmi';
+import { nmdi } from './nmdi';
+import { optram } from './optram';
+import { sentinel1 } from './sentinel1';
+import { smap } from './smap';
+import { smi, tvdi } from './triangle';
+import type { IndexImplementation } from './types';
+
+export type { IndexImplementation, IndexWindow, RegionIndex } from './types';
+
+// Registry of the Earth Engine index implementations, keyed by index id
+const registry: Record<MoistureIndex, IndexImplementation> = {
+  NDMI: ndmi,
+  SMI: smi,
+  TVDI: tvdi,
+  NMDI: nmdi,
+  OPTRAM: optram,
+  SAR: sentinel1,
+  SMAP: smap
+};
+
+export const getIndex = (id: MoistureIndex): IndexImplementation => registry[id];
+
+export const listIndices = (): MoistureIndex[] => [...moistureIndices];
@@ -0,0 +1,17 @@
+import { landsatSource, withTime } from './common';
+import type { IndexImplementation } from './types';
+
+// Calculate NDMI (Normalized Difference Moisture Index) from scaled reflectance
+const calculateNDMI = (image: any) => {
+  const nir = image.select('SR_B5');  // NIR band
+  const swir = image.select('SR_B6'); // SWIR band
+  return withTime(nir.subtract(swir).divide(nir.add(swir)).rename('NDMI'), image);
+};
+
+export const ndmi: IndexImplementation = {
+  id: 'NDMI',
+  ...landsatSource,
+  prepare: async () => ({
+    toIndex: (landsat: any) => landsat.map(calculateNDMI)
+  })
+};
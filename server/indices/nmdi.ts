@@ -0,0 +1,21 @@
+import { landsatSource, withTime } from './common';
+import type { IndexImplementation } from './types';
+
+// Normalized Multi-band Drought Index (Wang & Qu, 2007):
+// (NIR - (SWIR1 - SWIR2)) / (NIR + (SWIR1 - SWIR2))
+const calculateNMDI = (image: any) => {
+  const nmdi = image.expression('(NIR - (SWIR1 - SWIR2)) / (NIR + (SWIR1 - SWIR2))', {
+    NIR: image.select('SR_B5'),
+    SWIR1: image.select('SR_B6'),
+    SWIR2: image.select('SR_B7')
+  }).rename('NMDI');
+  return withTime(nmdi, image);
+};
+
+export const nmdi: IndexImplementation = {
+  id: 'NMDI',
+  ...landsatSource,
+  prepare: async () => ({
+    toIndex: (landsat: any) => landsat.map(calculateNMDI)
+  })
+};
@@ -0,0 +1,40 @@
+import type { DryWetEdges } from '@shared/schema';
+import { edgeImages, fitDryWetEdges, type EdgeOptions } from '../edgeFitting';
+import { calculateNDVI, landsatSource, withTime } from './common';
+import type { IndexImplementation } from './types';
+
+// Keep very dark pixels (water, shadow remnants) from blowing up the STR
+const MIN_SWIR = 0.01;
+
+// In the NDVI–STR trapezoid the dry edge is the lowest STR for a given NDVI
+const STR_EDGES: EdgeOptions = { band: 'STR', dryEdge: 'min' };
+
+// SWIR transformed reflectance (Sadeghi et al., 2017): (1 - R)^2 / (2R),
+// computed from SWIR2
+const calculateNdviStr = (image: any) => {
+  const swir = image.select('SR_B7').max(MIN_SWIR);
+  const str = swir.multiply(-1).add(1).pow(2).divide(swir.multiply(2)).rename('STR');
+  return withTime(calculateNDVI(image).addBands(str), image);
+};
+
+// Relative moisture: 0 on the dry edge, 1 on the wet edge
+const calculateOPTRAM = (edges: DryWetEdges) => (image: any) => {
+  const str = image.select('STR');
+  const { dry, wet } = edgeImages(image.select('NDVI'), edges);
+
+  const w = str.subtract(dry).divide(wet.subtract(dry)).clamp(0, 1).rename('OPTRAM');
+  return withTime(w, image);
+};
+
+export const optram: IndexImplementation = {
+  id: 'OPTRAM',
+  ...landsatSource,
+  prepare: async (landsat, geometry, _window, signal) => {
+    const composite = landsat.map(calculateNdviStr).mean();
+    const edges = await fitDryWetEdges(composite, geometry, STR_EDGES, signal);
+    return {
+      toIndex: (collection: any) => collection.map(calculateNdviStr).map(calculateOPTRAM(edges)),
+      edges
+    };
+  }
+};
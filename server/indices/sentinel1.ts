@@ -0,0 +1,88 @@
+import ee from '@google/earthengine';
+import { withTime } from './common';
+import type { IndexImplementation } from './types';
+
+// Long baseline for the dry and wet reference backscatter. The default spans
+// the years when both Sentinel-1A and 1B were operating.
+const BASELINE_START = process.env.S1_BASELINE_START || '2017-01-01';
+const BASELINE_END = process.env.S1_BASELINE_END || '2022-12-31';
+
+// Percentiles of VV backscatter taken as the driest and wettest states
+const DRY_PERCENTILE = 5;
+const WET_PERCENTILE = 95;
+
+// Pixels whose dry–wet backscatter range is below this (dB) barely respond to
+// moisture (urban, water, steep terrain) and are masked
+const MIN_SENSITIVITY_DB = 1;
+
+// Median VH above this (dB) indicates dense canopy whose volume scattering
+// hides the soil signal
+const MAX_VH_DB = -15;
+
+// Light speckle filter before comparing against the references
+const SPECKLE_RADIUS_M = 50;
+
+const ORBIT_PASSES = ['ASCENDING', 'DESCENDING'];
+
+// Sentinel-1 GRD, IW mode, dual polarised, calibrated to dB
+const loadSentinel1 = (startDate: string, endDate: string) =>
+  ee.ImageCollection('COPERNICUS/S1_GRD')
+    .filterDate(startDate, endDate)
+    .filter(ee.Filter.eq('instrumentMode', 'IW'))
+    .filter(ee.Filter.listContains('transmitterReceiverPolarisation', 'VV'))
+    .filter(ee.Filter.listContains('transmitterReceiverPolarisation', 'VH'))
+    .select(['VV', 'VH'])
+    .map((image: any) => withTime(
+      image.focal_median(SPECKLE_RADIUS_M, 'circle', 'meters'),
+      image
+    ).set('orbitProperties_pass', image.get('orbitProperties_pass')));
+
+// Dry/wet VV references and the sensitivity mask for one orbit direction.
+// Backscatter depends on viewing geometry, so ascending and descending
+// acquisitions are never compared with each other's references.
+const buildReferences = (pass: string) => {
+  const baseline = loadSentinel1(BASELINE_START, BASELINE_END)
+    .filter(ee.Filter.eq('orbitProperties_pass', pass));
+
+  const percentiles = baseline.select('VV')
+    .reduce(ee.Reducer.percentile([DRY_PERCENTILE, WET_PERCENTILE]));
+  const dry = percentiles.select(`VV_p${DRY_PERCENTILE}`);
+  const wet = percentiles.select(`VV_p${WET_PERCENTILE}`);
+  const sparseVegetation = baseline.select('VH').median().lt(MAX_VH_DB);
+
+  return {
+    dry,
+    wet,
+    mask: wet.subtract(dry).gt(MIN_SENSITIVITY_DB).and(sparseVegetation)
+  };
+};
+
+// Relative surface soil moisture: 0 at the dry reference, 1 at the wet one
+const calculateRelativeMoisture = (references: ReturnType<typeof buildReferences>) =>
+  (image: any) => {
+    const { dry, wet, mask } = references;
+    const moisture = image.select('VV')
+      .subtract(dry)
+      .divide(wet.subtract(dry))
+      .clamp(0, 1)
+      .updateMask(mask)
+      .rename('SAR');
+    return withTime(moisture, image);
+  };
+
+export const sentinel1: IndexImplementation = {
+  id: 'SAR',
+  // IW GRD is delivered on a 10 m grid, but its resolution is about 20 m
+  scale: 20,
+  load: ({ startDate, endDate }) => loadSentinel1(startDate, endDate),
+  prepare: async () => {
+    const references = ORBIT_PASSES.map((pass) => ({ pass, references: buildReferences(pass) }));
+    return {
+      toIndex: (collection: any) => references
+        .map(({ pass, references }) => collection
+          .filter(ee.Filter.eq('orbitProperties_pass', pass))
+          .map(calculateRelativeMoisture(references)))
+        .reduce((merged: any, next: any) => merged.merge(next))
+    };
+  }
+};
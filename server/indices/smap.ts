@@ -0,0 +1,26 @@
+import ee from '@google/earthengine';
+import { withTime } from './common';
+import type { IndexImplementation } from './types';
+
+// SMAP products in Earth Engine with their surface soil moisture band (m³/m³).
+// L3 enhanced is a daily 9 km retrieval; L4 is a 3-hourly 9 km model analysis.
+const SMAP_PRODUCTS = {
+  L3: { collection: 'NASA/SMAP/SPL3SMP_E/006', band: 'soil_moisture_am' },
+  L4: { collection: 'NASA/SMAP/SPL4SMGP/007', band: 'sm_surface' }
+};
+
+const product = SMAP_PRODUCTS[process.env.SMAP_PRODUCT === 'L4' ? 'L4' : 'L3'];
+
+export const smap: IndexImplementation = {
+  id: 'SMAP',
+  // Both products are on the 9 km EASE-Grid 2.0
+  scale: 9000,
+  load: ({ startDate, endDate }) =>
+    ee.ImageCollection(product.collection)
+      .filterDate(startDate, endDate)
+      .select([product.band]),
+  prepare: async () => ({
+    toIndex: (collection: any) =>
+      collection.map((image: any) => withTime(image.select(product.band).rename('SMAP'), image))
+  })
+};
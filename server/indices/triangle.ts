@@ -0,0 +1,48 @@
+import type { DryWetEdges } from '@shared/schema';
+import { edgeImages, fitDryWetEdges, LST_EDGES } from '../edgeFitting';
+import { calculateLST, calculateNDVI, landsatSource, withTime } from './common';
+import type { IndexImplementation } from './types';
+
+// NDVI and LST bands used by the triangle (SMI/TVDI) methods
+const calculateNdviLst = (image: any) => {
+  return withTime(calculateNDVI(image).addBands(calculateLST(image)), image);
+};
+
+// Soil Moisture Index: 1 on the wet edge, 0 on the dry edge
+const calculateSMI = (edges: DryWetEdges) => (image: any) => {
+  const lst = image.select('LST');
+  const { dry, wet } = edgeImages(image.select('NDVI'), edges);
+
+  const smi = dry.subtract(lst).divide(dry.subtract(wet)).clamp(0, 1).rename('SMI');
+  return withTime(smi, image);
+};
+
+// Temperature Vegetation Dryness Index: 0 on the wet edge, 1 on the dry edge
+const calculateTVDI = (edges: DryWetEdges) => (image: any) => {
+  const lst = image.select('LST');
+  const { dry, wet } = edgeImages(image.select('NDVI'), edges);
+
+  const tvdi = lst.subtract(wet).divide(dry.subtract(wet)).clamp(0, 1).rename('TVDI');
+  return withTime(tvdi, image);
+};
+
+// The dry and wet edges are fitted to the region's NDVI–LST scatter over the
+// requested window and reused for the historical baseline and trends
+const triangleIndex = (
+  id: 'SMI' | 'TVDI',
+  calculate: (edges: DryWetEdges) => (image: any) => any
+): IndexImplementation => ({
+  id,
+  ...landsatSource,
+  prepare: async (landsat, geometry, _window, signal) => {
+    const composite = landsat.map(calculateNdviLst).mean();
+    const edges = await fitDryWetEdges(composite, geometry, LST_EDGES, signal);
+    return {
+      toIndex: (collection: any) => collection.map(calculateNdviLst).map(calculate(edges)),
+      edges
+    };
+  }
+});
+
+export const smi = triangleIndex('SMI', calculateSMI);
+export const tvdi = triangleIndex('TVDI', calculateTVDI);
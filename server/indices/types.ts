@@ -0,0 +1,28 @@
+import type { MoistureIndex } from '@shared/indices';
+import type { DryWetEdges } from '@shared/schema';
+import type { MaskingOptions } from '../landsat';
+
+export interface IndexWindow {
+  startDate: string;
+  endDate: string;
+  masking: MaskingOptions;
+}
+
+// Index parameters resolved for one region
+export interface RegionIndex {
+  // Map a source collection to images with a single band named after the index
+  toIndex: (source: any) => any;
+  edges?: DryWetEdges;
+}
+
+export interface IndexImplementation {
+  id: MoistureIndex;
+  // Native resolution of the source imagery (m), the scale regions are reduced at
+  scale: number;
+  // Source imagery for a window (masked and scaled Landsat, Sentinel-1, ...)
+  load(window: IndexWindow): any;
+  // Fit any per-region parameters against the window's imagery
+  prepare(source: any, geometry: any, window: IndexWindow, signal?: AbortSignal): Promise<RegionIndex>;
+  // Per-pixel fraction of source observations removed by masking, if tracked
+  maskedFraction?(source: any): any;
+}
@@ -0,0 +1,164 @@
+import { after, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AnalysisEnvelope, AnalysisJob, AnalysisRequest } from "@shared/schema";
+import type { runAnalysis } from "./analysis";
+import { JobQueue } from "./jobs";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "jobs-test-"));
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const job = (changes: Partial<AnalysisJob> = {}): AnalysisJob => ({
+  id: crypto.randomUUID(),
+  status: "succeeded",
+  progress: 100,
+  request: { type: "average", startDate: "2023-01-01", endDate: "2023-03-31", timeStep: "monthly" },
+  createdAt: new Date().toISOString(),
+  finishedAt: new Date().toISOString(),
+  ...changes,
+});
+
+const write = (stored: AnalysisJob | string, name = typeof stored === "string" ? "bad" : stored.id) =>
+  fs.writeFileSync(path.join(directory, `${name}.json`), typeof stored === "string" ? stored : JSON.stringify(stored));
+
+const queue = () => new JobQueue(directory, 1, 7 * DAY_MS);
+
+describe("JobQueue persistence", () => {
+  beforeEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.mkdirSync(directory);
+  });
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  test("loads finished jobs left by an earlier run", async () => {
+    const stored = job({ result: { version: 1 } as unknown as AnalysisJob["result"] });
+    write(stored);
+
+    assert.deepEqual(await queue().get(stored.id), stored);
+  });
+
+  test("marks jobs a restart interrupted as failed", async () => {
+    const stored = job({ status: "running", progress: 40, finishedAt: undefined });
+    write(stored);
+
+    const loaded = await queue().get(stored.id);
+    assert.equal(loaded?.status, "failed");
+    assert.equal(loaded?.error, "Interrupted by a server restart");
+
+    // The new state is written in the background
+    const file = path.join(directory, `${stored.id}.json`);
+    for (let attempt = 0; attempt < 50 && JSON.parse(fs.readFileSync(file, "utf8")).status !== "failed"; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.equal(JSON.parse(fs.readFileSync(file, "utf8")).status, "failed");
+  });
+
+  test("drops finished jobs past their retention", async () => {
+    const old = new Date(Date.now() - 8 * DAY_MS).toISOString();
+    const stored = job({ createdAt: old, finishedAt: old });
+    write(stored);
+
+    assert.equal(await queue().get(stored.id), undefined);
+    assert.equal(fs.existsSync(path.join(directory, `${stored.id}.json`)), false);
+  });
+
+  test("moves corrupt and invalid files aside and loads the rest", async () => {
+    const stored = job();
+    write(stored);
+    write("{ not json");
+    write({ ...job(), request: { ...job().request, startDate: "2023-04-01" } } as AnalysisJob, "invalid");
+
+    assert.deepEqual(await queue().get(stored.id), stored);
+    const names = fs.readdirSync(directory);
+    assert.deepEqual(names.filter((name) => name.endsWith(".json")), [`${stored.id}.json`]);
+    assert.equal(names.filter((name) => name.includes(".json.corrupt-")).length, 2);
+  });
+
+  test("retries a failed load instead of remembering it", async () => {
+    fs.rmSync(directory, { recursive: true });
+    // A file where the directory should be fails to list with ENOTDIR
+    fs.writeFileSync(directory, "");
+    const jobs = queue();
+    await assert.rejects(jobs.get(crypto.randomUUID()));
+
+    fs.rmSync(directory);
+    fs.mkdirSync(directory);
+    const stored = job();
+    write(stored);
+    assert.deepEqual(await jobs.get(stored.id), stored);
+  });
+});
+
+// Envelope standing in for an analysis result, told apart by its time
+const envelope = (request: AnalysisRequest, completedAt: string) =>
+  ({ type: request.type, result: {}, version: 1, request, completedAt }) as unknown as AnalysisEnvelope;
+
+const until = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.ok(condition(), "timed out");
+};
+
+describe("JobQueue runs", () => {
+  const request = job().request;
+
+  beforeEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    fs.mkdirSync(directory);
+  });
+  after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+  test("reports rising progress and the partial results of each batch", async () => {
+    const seen: number[] = [];
+    let current: AnalysisJob | undefined;
+    const analyze: typeof runAnalysis = async (request, _signal, onProgress) => {
+      for (const [percent, partial] of [[25, "p1"], [50, undefined], [40, undefined], [75, "p2"]] as const) {
+        onProgress?.(percent, partial && envelope(request, partial));
+        seen.push(current!.progress);
+      }
+      assert.equal(current!.partial?.completedAt, "p2");
+      return envelope(request, "done");
+    };
+    const jobs = new JobQueue(directory, 1, DAY_MS, analyze);
+
+    current = await jobs.submit(request);
+    await until(() => current!.status === "succeeded");
+
+    assert.deepEqual(seen, [25, 50, 50, 75]);
+    assert.equal(current.progress, 100);
+    assert.equal(current.result?.completedAt, "done");
+    assert.equal(current.partial, undefined);
+  });
+
+  test("keeps the partial results of a cancelled job", async () => {
+    let aborted = false;
+    const analyze: typeof runAnalysis = (request, signal, onProgress) =>
+      new Promise((_resolve, reject) => {
+        onProgress?.(40, envelope(request, "p1"));
+        signal?.addEventListener("abort", () => {
+          aborted = true;
+          reject(signal.reason);
+        });
+      });
+    const jobs = new JobQueue(directory, 1, DAY_MS, analyze);
+
+    const submitted = await jobs.submit(request);
+    await until(() => submitted.progress === 40);
+    const cancelled = await jobs.cancel(submitted.id);
+
+    assert.equal(aborted, true);
+    assert.equal(cancelled?.status, "cancelled");
+    assert.equal(cancelled?.progress, 40);
+    assert.equal(cancelled?.partial?.completedAt, "p1");
+
+    // The cancelled state, partial results included, is what a restart loads
+    const file = path.join(directory, `${submitted.id}.json`);
+    await until(() => JSON.parse(fs.readFileSync(file, "utf8")).status === "cancelled");
+    const reloaded = await new JobQueue(directory, 1, DAY_MS).get(submitted.id);
+    assert.equal(reloaded?.partial?.completedAt, "p1");
+  });
+});
@@ -0,0 +1,197 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+import { analysisRequestSchema, type AnalysisJob, type AnalysisRequest, type JobStatus } from "@shared/schema";
+import { runAnalysis } from "./analysis";
+import { liveUpdates } from "./live";
+
+// Analyses run in the background so long Earth Engine reductions do not hold
+// an HTTP request open. Jobs report the percent of the provider's batches
+// done and, after each batch, partial results for the periods finished so
+// far. Every job is kept as a JSON file so finished results survive
+// restarts. Jobs a restart interrupted are marked failed. Every state change
+// is also pushed to the job's live update subscribers.
+
+const DEFAULT_CONCURRENCY = 1;
+const DEFAULT_RETENTION_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const finished: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+export const isFinished = ({ status }: AnalysisJob) => finished.includes(status);
+
+// What a job file must hold to be loaded; results are kept as written
+const storedJobSchema = z
+  .object({
+    id: z.string().uuid(),
+    status: z.enum(["queued", "running", "succeeded", "failed", "cancelled"]),
+    progress: z.number(),
+    request: analysisRequestSchema,
+    createdAt: z.string(),
+  })
+  .passthrough();
+
+export class JobQueue {
+  private jobs = new Map<string, AnalysisJob>();
+  private waiting: string[] = [];
+  private running = new Map<string, AbortController>();
+  // Writes per job, chained so a later state never lands before an earlier one
+  private writes = new Map<string, Promise<void>>();
+  private loading?: Promise<void>;
+
+  constructor(
+    private readonly directory: string,
+    private readonly concurrency: number,
+    private readonly retentionMs: number,
+    private readonly analyze: typeof runAnalysis = runAnalysis,
+  ) {}
+
+  // A failed load is retried by the next call rather than remembered
+  private load(): Promise<void> {
+    this.loading ??= this.read().catch((error) => {
+      this.loading = undefined;
+      throw error;
+    });
+    return this.loading;
+  }
+
+  private async read() {
+    let files: string[];
+    try {
+      files = await fs.promises.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return;
+      throw error;
+    }
+    const expired = Date.now() - this.retentionMs;
+
+    for (const file of files.filter((name) => name.endsWith(".json"))) {
+      const job = await this.readJob(path.join(this.directory, file));
+      if (!job) continue;
+
+      if (isFinished(job) && Date.parse(job.finishedAt ?? job.createdAt) < expired) {
+        await fs.promises.rm(path.join(this.directory, file), { force: true });
+        continue;
+      }
+      this.jobs.set(job.id, job);
+      if (!isFinished(job)) {
+        this.update(job, { status: "failed", error: "Interrupted by a server restart", finishedAt: new Date().toISOString() });
+      }
+    }
+  }
+
+  // A file that cannot be read as a job is moved aside for inspection, so
+  // one bad file never keeps the queue from starting
+  private async readJob(file: string): Promise<AnalysisJob | undefined> {
+    try {
+      return storedJobSchema.parse(JSON.parse(await fs.promises.readFile(file, "utf8"))) as AnalysisJob;
+    } catch (error) {
+      const quarantined = `${file}.corrupt-${Date.now()}`;
+      console.error(`Invalid job file, moved to ${quarantined}:`, error);
+      await fs.promises.rename(file, quarantined).catch(() => {});
+      return undefined;
+    }
+  }
+
+  private save(job: AnalysisJob): Promise<void> {
+    const snapshot = JSON.stringify(job);
+    liveUpdates.publish({ type: "job", job });
+    const write = (this.writes.get(job.id) ?? Promise.resolve()).then(async () => {
+      await fs.promises.mkdir(this.directory, { recursive: true });
+      const file = path.join(this.directory, `${job.id}.json`);
+      const temporary = `${file}.${process.pid}.tmp`;
+      await fs.promises.writeFile(temporary, snapshot);
+      await fs.promises.rename(temporary, file);
+    });
+    const settled = write.catch((error) => console.error(`Failed to save job ${job.id}:`, error));
+    this.writes.set(job.id, settled);
+    return settled;
+  }
+
+  private update(job: AnalysisJob, changes: Partial<AnalysisJob>): Promise<void> {
+    Object.assign(job, changes);
+    return this.save(job);
+  }
+
+  async submit(request: AnalysisRequest): Promise<AnalysisJob> {
+    await this.load();
+    const job: AnalysisJob = {
+      id: crypto.randomUUID(),
+      status: "queued",
+      progress: 0,
+      request,
+      createdAt: new Date().toISOString(),
+    };
+    this.jobs.set(job.id, job);
+    this.waiting.push(job.id);
+    await this.save(job);
+    this.pump();
+    return job;
+  }
+
+  async get(id: string): Promise<AnalysisJob | undefined> {
+    await this.load();
+    return this.jobs.get(id);
+  }
+
+  // Stop a queued or running job, abandoning its provider calls; a running
+  // job keeps its partial results. Finished jobs are left as they are.
+  async cancel(id: string): Promise<AnalysisJob | undefined> {
+    await this.load();
+    const job = this.jobs.get(id);
+    if (!job || isFinished(job)) return job;
+
+    this.waiting = this.waiting.filter((waitingId) => waitingId !== id);
+    this.running.get(id)?.abort();
+    await this.update(job, { status: "cancelled", finishedAt: new Date().toISOString() });
+    return job;
+  }
+
+  private pump() {
+    while (this.running.size < this.concurrency && this.waiting.length > 0) {
+      const job = this.jobs.get(this.waiting.shift()!)!;
+      const controller = new AbortController();
+      this.running.set(job.id, controller);
+      this.run(job, controller.signal).finally(() => {
+        this.running.delete(job.id);
+        this.pump();
+      });
+    }
+  }
+
+  private async run(job: AnalysisJob, signal: AbortSignal) {
+    await this.update(job, { status: "running", startedAt: new Date().toISOString() });
+
+    try {
+      const result = await this.analyze(job.request, signal, (percent, partial) => {
+        // Only news is saved and pushed: a higher percentage or more results
+        if (signal.aborted || (percent <= job.progress && !partial)) return;
+        this.update(job, { progress: Math.max(job.progress, percent), ...(partial && { partial }) });
+      });
+      if (signal.aborted) return;
+
+      await this.update(job, {
+        status: "succeeded",
+        progress: 100,
+        result,
+        partial: undefined,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (signal.aborted) return;
+      console.error(`Analysis job ${job.id} failed:`, error);
+      await this.update(job, {
+        status: "failed",
+        error: error instanceof Error ? error.message : "Unknown error",
+        finishedAt: new Date().toISOString(),
+      });
+    }
+  }
+}
+
+export const jobs = new JobQueue(
+  path.resolve(process.env.JOBS_DIR ?? path.join(process.cwd(), ".data", "jobs")),
+  Number(process.env.JOB_CONCURRENCY) || DEFAULT_CONCURRENCY,
+  (Number(process.env.JOB_RETENTION_DAYS) || DEFAULT_RETENTION_DAYS) * DAY_MS,
+);
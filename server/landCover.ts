@@ -0,0 +1,42 @@
+import ee from '@google/earthengine';
+import { landCoverClasses, landCoverCodes, type LandCoverCode } from '@shared/landCover';
+import type { RegionIndex } from './indices/types';
+
+// ESA WorldCover 10 m, 2021 release (single global image)
+const WORLDCOVER_COLLECTION = 'ESA/WorldCover/v200';
+
+// Class shares do not need the full 10 m resolution
+export const LAND_COVER_SCALE = 100;
+
+export const loadLandCover = () =>
+  ee.ImageCollection(WORLDCOVER_COLLECTION).first().select('Map');
+
+// 1 where the pixel belongs to one of the classes, 0 elsewhere
+export const landCoverMask = (classes: LandCoverCode[]) =>
+  loadLandCover().remap(classes, classes.map(() => 1), 0);
+
+// Restrict an index to pixels of the given classes, so e.g. forest and
+// built-up pixels do not count towards a cropland average
+export const restrictToLandCover = (
+  regionIndex: RegionIndex,
+  classes?: LandCoverCode[]
+): RegionIndex => {
+  if (!classes || classes.length === 0) return regionIndex;
+
+  const mask = landCoverMask(classes);
+  return {
+    ...regionIndex,
+    toIndex: (source: any) =>
+      regionIndex.toIndex(source).map((image: any) => image.updateMask(mask))
+  };
+};
+
+// Classes recoded to 0..n-1 and colored with the WorldCover palette
+export const visualizeLandCover = () => ({
+  image: loadLandCover().remap(landCoverCodes, landCoverCodes.map((_, i) => i)),
+  visParams: {
+    min: 0,
+    max: landCoverCodes.length - 1,
+    palette: landCoverCodes.map((code) => landCoverClasses[code].color)
+  }
+});
@@ -0,0 +1,103 @@
+import ee from '@google/earthengine';
+import type { SoilMoistureQuery } from '@shared/schema';
+
+// Landsat 8 and 9 Collection 2 Level-2 surface reflectance / temperature
+const LANDSAT_COLLECTIONS = ['LANDSAT/LC08/C02/T1_L2', 'LANDSAT/LC09/C02/T1_L2'];
+
+// Collection 2 Level-2 scale factors: reflectance is unitless, surface
+// temperature is in Kelvin
+const SR_SCALE = 0.0000275;
+const SR_OFFSET = -0.2;
+const ST_SCALE = 0.00341802;
+const ST_OFFSET = 149.0;
+
+// QA_PIXEL bit positions (Collection 2)
+const QA_FILL = 1 << 0;
+const QA_DILATED_CLOUD = 1 << 1;
+const QA_CIRRUS = 1 << 2;
+const QA_CLOUD = 1 << 3;
+const QA_CLOUD_SHADOW = 1 << 4;
+const QA_SNOW = 1 << 5;
+
+export interface MaskingOptions {
+  cloud: boolean;
+  shadow: boolean;
+  cirrus: boolean;
+  snow: boolean;
+  saturated: boolean;
+}
+
+export const DEFAULT_MASKING: MaskingOptions = {
+  cloud: true,
+  shadow: true,
+  cirrus: true,
+  snow: true,
+  saturated: true
+};
+
+// Query parameters override the defaults one flag at a time
+export const getMaskingOptions = (query: SoilMoistureQuery): MaskingOptions => ({
+  cloud: query.maskCloud ?? DEFAULT_MASKING.cloud,
+  shadow: query.maskShadow ?? DEFAULT_MASKING.shadow,
+  cirrus: query.maskCirrus ?? DEFAULT_MASKING.cirrus,
+  snow: query.maskSnow ?? DEFAULT_MASKING.snow,
+  saturated: query.maskSaturated ?? DEFAULT_MASKING.saturated
+});
+
+const getQaBits = (options: MaskingOptions) => {
+  let bits = 0;
+  if (options.cloud) bits |= QA_CLOUD | QA_DILATED_CLOUD;
+  if (options.shadow) bits |= QA_CLOUD_SHADOW;
+  if (options.cirrus) bits |= QA_CIRRUS;
+  if (options.snow) bits |= QA_SNOW;
+  return bits;
+};
+
+// Build a per-image masking function. Masked pixels are removed from every
+// band, and a separate `clear` band (1 = kept, 0 = masked, unset outside the
+// scene footprint) is added so callers can report how much was discarded.
+export const createMasker = (options: MaskingOptions) => {
+  const qaBits = getQaBits(options);
+
+  return (image: any) => {
+    const qa = image.select('QA_PIXEL');
+    const footprint = qa.bitwiseAnd(QA_FILL).eq(0);
+
+    let clear = qa.bitwiseAnd(qaBits).eq(0);
+    if (options.saturated) {
+      clear = clear.and(image.select('QA_RADSAT').eq(0));
+    }
+
+    return image
+      .updateMask(clear)
+      .addBands(clear.rename('clear').updateMask(footprint));
+  };
+};
+
+// Convert SR_B* digital numbers to surface reflectance and ST_B10 to surface
+// temperature so every index is computed from physical units
+export const applyScaleFactors = (image: any) => {
+  const optical = image.select('SR_B.').multiply(SR_SCALE).add(SR_OFFSET);
+  const thermal = image.select('ST_B10').multiply(ST_SCALE).add(ST_OFFSET);
+
+  return image
+    .addBands(optical, null, true)
+    .addBands(thermal, null, true);
+};
+
+// Merged Landsat 8/9 collection for the date range, masked and scaled
+export const loadLandsat = (startDate: string, endDate: string, options: MaskingOptions) => {
+  const mask = createMasker(options);
+  const [first, ...rest] = LANDSAT_COLLECTIONS.map((id) =>
+    ee.ImageCollection(id).filterDate(startDate, endDate)
+  );
+
+  return rest
+    .reduce((merged: any, collection: any) => merged.merge(collection), first)
+    .map(mask)
+    .map(applyScaleFactors);
+};
+
+// Mean fraction of observations that masking removed over a region
+export const maskedFractionImage = (collection: any) =>
+  ee.Image(1).subtract(collection.select('clear').mean()).rename('maskedFraction');
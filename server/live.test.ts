@@ -0,0 +1,139 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { jobTopic, regionTopic, LIVE_UPDATES_PATH, type LiveMessage } from "@shared/live";
+import type { AnalysisEnvelope, AnalysisJob } from "@shared/schema";
+import type { runAnalysis } from "./analysis";
+import { JobQueue } from "./jobs";
+import { liveUpdates } from "./live";
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "live-test-"));
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let server: Server;
+let url: string;
+
+// A connected client and the messages it has received, in order
+async function connect() {
+  const socket = new WebSocket(url);
+  const received: LiveMessage[] = [];
+  socket.on("message", (data) => received.push(JSON.parse(data.toString())));
+  await new Promise((resolve, reject) => {
+    socket.once("open", resolve);
+    socket.once("error", reject);
+  });
+  return { socket, received };
+}
+
+const until = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.ok(condition(), "timed out");
+};
+
+// Messages are handled in order, so once the error answering a malformed
+// message arrives the subscription sent before it is in place
+async function subscribe({ socket, received }: Awaited<ReturnType<typeof connect>>, topics: string[]) {
+  const errors = received.filter(({ type }) => type === "error").length;
+  socket.send(JSON.stringify({ type: "subscribe", topics }));
+  socket.send("not json");
+  await until(() => received.filter(({ type }) => type === "error").length > errors);
+}
+
+const job = (id = crypto.randomUUID()): AnalysisJob => ({
+  id,
+  status: "running",
+  progress: 0,
+  request: { type: "average", startDate: "2023-01-01", endDate: "2023-03-31", timeStep: "monthly" },
+  createdAt: new Date().toISOString(),
+});
+
+describe("LiveUpdates", () => {
+  before(async () => {
+    server = createServer();
+    liveUpdates.attach(server);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}${LIVE_UPDATES_PATH}`;
+  });
+
+  after(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("sends messages only to the clients subscribed to their topic", async () => {
+    const subscribed = await connect();
+    const other = await connect();
+    await subscribe(subscribed, [regionTopic("North Region")]);
+    await subscribe(other, [regionTopic("Western Hills")]);
+
+    const message: LiveMessage = { type: "data", region: "North Region", index: "NDMI", date: "2024-05-01" };
+    liveUpdates.publish(message);
+    await until(() => subscribed.received.some(({ type }) => type === "data"));
+
+    assert.deepEqual(subscribed.received.filter(({ type }) => type === "data"), [message]);
+    assert.deepEqual(other.received.filter(({ type }) => type === "data"), []);
+    subscribed.socket.close();
+    other.socket.close();
+  });
+
+  test("stops sending a topic once unsubscribed", async () => {
+    const client = await connect();
+    const topic = jobTopic(crypto.randomUUID());
+    await subscribe(client, [topic]);
+    client.socket.send(JSON.stringify({ type: "unsubscribe", topics: [topic] }));
+    await subscribe(client, []);
+
+    liveUpdates.publish({ type: "job", job: job(topic.slice("job:".length)) });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    assert.deepEqual(client.received.filter(({ type }) => type === "job"), []);
+    client.socket.close();
+  });
+
+  test("answers malformed messages with an error", async () => {
+    const client = await connect();
+    client.socket.send(JSON.stringify({ type: "subscribe", topics: "job:1" }));
+    await until(() => client.received.length > 0);
+    assert.equal(client.received[0].type, "error");
+    client.socket.close();
+  });
+
+  test("pushes a job's progress and partial results as it runs", async () => {
+    // The run waits for the client to subscribe to the job
+    let release!: () => void;
+    const subscribed = new Promise<void>((resolve) => (release = resolve));
+    const analyze: typeof runAnalysis = async (request, _signal, onProgress) => {
+      const envelope = (completedAt: string) =>
+        ({ type: request.type, result: {}, version: 1, request, completedAt }) as unknown as AnalysisEnvelope;
+      await subscribed;
+      onProgress?.(30, envelope("p1"));
+      onProgress?.(60, envelope("p2"));
+      return envelope("done");
+    };
+    const jobs = new JobQueue(directory, 1, DAY_MS, analyze);
+
+    const client = await connect();
+    const submitted = await jobs.submit(job().request);
+    await subscribe(client, [jobTopic(submitted.id)]);
+    release();
+    await until(() => client.received.some((message) => message.type === "job" && message.job.status === "succeeded"));
+
+    const updates = client.received
+      .flatMap((message) => (message.type === "job" ? [message.job] : []))
+      .map(({ progress, partial, result }) => ({ progress, partial: partial?.completedAt, result: result?.completedAt }));
+    assert.deepEqual(updates.slice(-3), [
+      { progress: 30, partial: "p1", result: undefined },
+      { progress: 60, partial: "p2", result: undefined },
+      { progress: 100, partial: undefined, result: "done" },
+    ]);
+    client.socket.close();
+  });
+});
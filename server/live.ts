@@ -0,0 +1,77 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import { WebSocket, WebSocketServer } from "ws";
+import { LIVE_UPDATES_PATH, liveClientMessageSchema, topicOf, type LiveMessage } from "@shared/live";
+
+// WebSocket hub for live updates. It only answers upgrades on its own path,
+// leaving the others (Vite's HMR socket in development) to their handlers.
+// Connections that stop answering pings are dropped.
+
+const HEARTBEAT_MS = 30_000;
+
+export class LiveUpdates {
+  private server = new WebSocketServer({ noServer: true });
+  private subscriptions = new Map<WebSocket, Set<string>>();
+  private alive = new WeakSet<WebSocket>();
+
+  attach(httpServer: Server) {
+    httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      if (new URL(req.url ?? "/", "http://localhost").pathname !== LIVE_UPDATES_PATH) return;
+      this.server.handleUpgrade(req, socket, head, (client) => this.connect(client));
+    });
+
+    const heartbeat = setInterval(() => {
+      this.subscriptions.forEach((_, client) => {
+        if (!this.alive.has(client)) return client.terminate();
+        this.alive.delete(client);
+        client.ping();
+      });
+    }, HEARTBEAT_MS);
+    heartbeat.unref();
+    httpServer.on("close", () => clearInterval(heartbeat));
+  }
+
+  private connect(client: WebSocket) {
+    const topics = new Set<string>();
+    this.subscriptions.set(client, topics);
+    this.alive.add(client);
+
+    client.on("pong", () => this.alive.add(client));
+    client.on("close", () => this.subscriptions.delete(client));
+    client.on("error", (error) => console.error("Live update socket error:", error));
+    client.on("message", (data) => {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(data.toString());
+      } catch {
+        return this.send(client, { type: "error", message: "Messages must be JSON" });
+      }
+
+      const result = liveClientMessageSchema.safeParse(parsed);
+      if (!result.success) {
+        return this.send(client, { type: "error", message: "Expected { type: 'subscribe' | 'unsubscribe', topics }" });
+      }
+      const { type, topics: requested } = result.data;
+      requested.forEach((topic) => (type === "subscribe" ? topics.add(topic) : topics.delete(topic)));
+    });
+  }
+
+  private send(client: WebSocket, message: LiveMessage) {
+    if (client.readyState === WebSocket.OPEN) client.send(JSON.stringify(message));
+  }
+
+  // Send a message to the clients subscribed to its topic
+  publish(message: LiveMessage) {
+    const topic = topicOf(message);
+    if (!topic) return;
+
+    let text: string | undefined;
+    this.subscriptions.forEach((topics, client) => {
+      if (!topics.has(topic) || client.readyState !== WebSocket.OPEN) return;
+      text ??= JSON.stringify(message);
+      client.send(text);
+    });
+  }
+}
+
+export const liveUpdates = new LiveUpdates();
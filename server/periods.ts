@@ -0,0 +1,46 @@
+import type { SoilMoistureQuery } from "@shared/schema";
+
+export type TimeStep = SoilMoistureQuery["timeStep"];
+
+export interface Period {
+  start: string;
+  end: string;
+}
+
+const toIsoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const advance = (date: Date, timeStep: TimeStep) => {
+  const next = new Date(date);
+  switch (timeStep) {
+    case "daily":
+      next.setUTCDate(next.getUTCDate() + 1);
+      break;
+    case "weekly":
+      next.setUTCDate(next.getUTCDate() + 7);
+      break;
+    case "monthly":
+      next.setUTCMonth(next.getUTCMonth() + 1);
+      break;
+  }
+  return next;
+};
+
+// Split [startDate, endDate] into consecutive half-open periods of one time step
+export function buildPeriods(startDate: string, endDate: string, timeStep: TimeStep): Period[] {
+  const periods: Period[] = [];
+  const last = new Date(`${endDate}T00:00:00Z`);
+  let current = new Date(`${startDate}T00:00:00Z`);
+
+  while (current <= last) {
+    const next = advance(current, timeStep);
+    periods.push({ start: toIsoDate(current), end: toIsoDate(next) });
+    current = next;
+  }
+
+  return periods;
+}
+
+// Label used on the trend chart's x axis
+export function formatPeriodName(date: string): string {
+  return new Date(date).toLocaleDateString('en-US', { month: 'short', timeZone: 'UTC' });
+}
@@ -0,0 +1,12 @@
+import type { QueryProgress } from "./provider";
+
+// Percent done of an answer made of several provider calls, each weighed by
+// the share of its own batches finished. Calls yet to report count as not
+// started, so the percentage never goes down.
+export function trackProgress(calls: number) {
+  const shares = new Array<number>(calls).fill(0);
+  return (call: number, { done, total }: Pick<QueryProgress, "done" | "total">) => {
+    shares[call] = total > 0 ? Math.min(done / total, 1) : 1;
+    return Math.floor((100 * shares.reduce((sum, share) => sum + share, 0)) / calls);
+  };
+}
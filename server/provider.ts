@@ -0,0 +1,87 @@
+import path, { dirname } from "path";
+import { fileURLToPath } from "url";
+import type { MoistureIndex } from "@shared/indices";
+import type {
+  ChangeAnalysisQuery,
+  ChangeArea,
+  LandCoverQuery,
+  LandCoverResponse,
+  PrecipitationQuery,
+  PrecipitationResponse,
+  RegionInfo,
+  SoilMoistureQuery,
+  SoilMoistureResponse,
+  TileCoordinates,
+} from "@shared/schema";
+import type { TileRequest } from "./tiles";
+import { EarthEngineProvider } from "./earthEngine";
+import { FixtureProvider } from "./fixtureProvider";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+// A long query advancing: batches of work done out of the total, and the
+// response for the periods finished so far once the window itself is known
+export interface QueryProgress {
+  done: number;
+  total: number;
+  partial?: SoilMoistureResponse;
+}
+
+export interface ProviderStatus {
+  state: "idle" | "initializing" | "ready" | "failed";
+  error?: string;
+  authenticatedAt?: string;
+  expiresAt?: string;
+  queuedRequests?: number;
+}
+
+// A backend that can answer soil moisture queries. The routes only talk to
+// this interface so the Earth Engine pipeline can be swapped for an offline one.
+export interface SoilMoistureProvider {
+  readonly name: string;
+  // Prepare the backend at startup (authenticate, load files)
+  start(): Promise<void>;
+  getStatus(): ProviderStatus;
+  getRegions(): Promise<RegionInfo[]>;
+  // Moisture indices this backend can compute
+  getIndices(): Promise<MoistureIndex[]>;
+  // An aborted signal stops the work still outstanding (background jobs).
+  // onProgress hears of each batch done; backends answering in one step may
+  // never call it.
+  getSoilMoisture(
+    query: SoilMoistureQuery,
+    signal?: AbortSignal,
+    onProgress?: (progress: QueryProgress) => void,
+  ): Promise<SoilMoistureResponse>;
+  // Accumulated precipitation over the query window
+  getPrecipitation(query: PrecipitationQuery): Promise<PrecipitationResponse>;
+  // Land cover class shares per region
+  getLandCover(query: LandCoverQuery): Promise<LandCoverResponse>;
+  // Area of significant wetting and drying per region between the query's
+  // before window and its own
+  getChangeAreas(query: ChangeAnalysisQuery, signal?: AbortSignal): Promise<ChangeArea[]>;
+  // Date (YYYY-MM-DD) of the latest acquisition of an index by region name,
+  // leaving out regions without recent imagery
+  getLatestAcquisitions(index: MoistureIndex): Promise<Map<string, string>>;
+  // One PNG map tile of a layer
+  getTile(request: TileRequest, tile: TileCoordinates): Promise<Buffer>;
+}
+
+export function createProvider(
+  name = process.env.SOIL_MOISTURE_PROVIDER || "earthengine",
+): SoilMoistureProvider {
+  switch (name) {
+    case "earthengine":
+      return new EarthEngineProvider();
+    case "fixture":
+      return new FixtureProvider(
+        process.env.SOIL_MOISTURE_FIXTURE_DIR ||
+          path.resolve(__dirname, "..", "fixtures", "demo"),
+      );
+    default:
+      throw new Error(`Unknown soil moisture provider: ${name}`);
+  }
+}
+
+export const provider = createProvider();
@@ -0,0 +1,185 @@
+import { after, before, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { drizzle } from "drizzle-orm/pg-proxy";
+import type { SoilMoistureQuery, SoilMoistureResponse } from "@shared/schema";
+import type { Database } from "./db";
+import type { ResultCache } from "./resultCache";
+
+// Regions are resolved by the provider and schemes by their store, both chosen
+// when their modules load, so the environment is set before the cache is imported
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "result-cache-test-"));
+process.env.SOIL_MOISTURE_PROVIDER = "fixture";
+process.env.CLASSIFICATION_SCHEMES_FILE = path.join(directory, "classification-schemes.json");
+delete process.env.DATABASE_URL;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type Row = Record<string, unknown>;
+
+// The result_cache table in memory, behind drizzle's proxy driver. It answers
+// the few statements the cache issues: conditions are evaluated as written,
+// and timestamps arrive as ISO strings, which compare in date order.
+function memoryDatabase() {
+  const rows: Row[] = [];
+  let nextId = 1;
+  let writes = 0;
+
+  const predicate = (sql: string, params: unknown[]) => {
+    const where = / where (.*?)(?: limit \$\d+| returning .*)?$/.exec(sql)?.[1];
+    if (!where) return () => true;
+    const expression = where
+      .replaceAll('"result_cache".', "")
+      .replace(/"(\w+)"/g, 'row["$1"]')
+      .replaceAll(" is null", " == null")
+      .replaceAll(" = ", " === ")
+      .replaceAll(" and ", " && ")
+      .replaceAll(" or ", " || ")
+      .replace(/\$(\d+)/g, (_, n) => `params[${n - 1}]`);
+    return new Function("row", "params", `return ${expression}`) as (row: Row, params: unknown[]) => boolean;
+  };
+
+  const database = drizzle(async (sql, params) => {
+    if (sql.startsWith("insert")) {
+      const columns = [...sql.matchAll(/"(\w+)"/g)].map(([, name]) => name).slice(2, 10);
+      const row: Row = Object.fromEntries(columns.map((name, i) => [name, params[i]]));
+      const existing = rows.find(({ query_hash }) => query_hash === row.query_hash);
+      if (existing) Object.assign(existing, row, { id: existing.id });
+      else rows.push({ ...row, id: nextId++ });
+      writes++;
+      return { rows: [] };
+    }
+
+    const matches = predicate(sql, params);
+    const selected = rows.filter((row) => matches(row, params));
+    if (sql.startsWith("select count(*)")) return { rows: [[selected.length]] };
+    if (sql.startsWith("select")) return { rows: selected.slice(0, 1).map((row) => [row.response]) };
+    if (sql.startsWith("delete")) {
+      for (const row of selected) rows.splice(rows.indexOf(row), 1);
+      return { rows: selected.map((row) => [row.id]) };
+    }
+    throw new Error(`Unexpected statement: ${sql}`);
+  });
+
+  return { database: database as unknown as Database, rows, writes: () => writes };
+}
+
+const query = (overrides: Partial<SoilMoistureQuery> = {}): SoilMoistureQuery => ({
+  startDate: "2023-01-01",
+  endDate: "2023-03-31",
+  timeStep: "monthly",
+  ...overrides,
+});
+
+// A window ending today is still open
+const today = new Date().toISOString().slice(0, 10);
+
+const until = async (condition: () => boolean) => {
+  for (let attempt = 0; attempt < 100 && !condition(); attempt++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+  assert.ok(condition(), "timed out");
+};
+
+let Cache: typeof ResultCache;
+
+describe("ResultCache", () => {
+  let memory: ReturnType<typeof memoryDatabase>;
+  let computed: number;
+
+  // Answers with the number of computations so far, so a cached answer is
+  // recognizable
+  const compute = async () => ({ data: [], computed: ++computed }) as unknown as SoilMoistureResponse;
+
+  // Gets the query and waits for a computed answer to be written
+  const get = async (cache: ResultCache, q: SoilMoistureQuery) => {
+    const writes = memory.writes();
+    const result = await cache.get(q, compute);
+    if (result.status === "miss") await until(() => memory.writes() > writes);
+    return result;
+  };
+
+  before(async () => {
+    ({ ResultCache: Cache } = await import("./resultCache"));
+  });
+
+  beforeEach(() => {
+    memory = memoryDatabase();
+    computed = 0;
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("computes every query without a database", async () => {
+    const cache = new Cache(undefined, DAY_MS, 30 * DAY_MS);
+    assert.equal((await cache.get(query(), compute)).status, "bypass");
+    assert.equal((await cache.get(query(), compute)).status, "bypass");
+    assert.equal(computed, 2);
+    assert.deepEqual(await cache.getStats(), { enabled: false, entries: 0, permanent: 0 });
+    assert.equal(await cache.purge({}), 0);
+  });
+
+  test("keeps a window closed past the settle period for good", async () => {
+    const cache = new Cache(memory.database, 60 * 1000, 30 * DAY_MS);
+    assert.equal((await get(cache, query())).status, "miss");
+    assert.equal(memory.rows[0].expires_at, null);
+
+    const { response, status } = await cache.get(query(), compute);
+    assert.equal(status, "hit");
+    assert.equal((response as unknown as { computed: number }).computed, 1);
+    assert.equal(computed, 1);
+  });
+
+  test("expires a recent window after the TTL", async () => {
+    const cache = new Cache(memory.database, 200, 30 * DAY_MS);
+    const recent = query({ startDate: "2023-01-01", endDate: today });
+    assert.equal((await get(cache, recent)).status, "miss");
+    assert.notEqual(memory.rows[0].expires_at, null);
+    assert.equal((await cache.get(recent, compute)).status, "hit");
+
+    await new Promise((resolve) => setTimeout(resolve, 250));
+    assert.equal((await cache.get(recent, compute)).status, "miss");
+    assert.equal(computed, 2);
+  });
+
+  test("counts a window as open until the settle period has passed", async () => {
+    const cache = new Cache(memory.database, 60 * 1000, 10000 * DAY_MS);
+    await get(cache, query());
+    assert.notEqual(memory.rows[0].expires_at, null);
+    assert.deepEqual(await cache.getStats(), { enabled: true, entries: 1, permanent: 0 });
+  });
+
+  test("shares an entry between a region's id and name and explicit defaults", async () => {
+    const cache = new Cache(memory.database, 60 * 1000, 30 * DAY_MS);
+    await get(cache, query({ region: "region1" }));
+    assert.equal((await cache.get(query({ region: "North Region", maskCloud: true }), compute)).status, "hit");
+    assert.equal((await cache.get(query({ region: "region2" }), compute)).status, "miss");
+  });
+
+  test("counts entries and those kept for good", async () => {
+    const cache = new Cache(memory.database, 60 * 1000, 30 * DAY_MS);
+    await get(cache, query());
+    await get(cache, query({ region: "region1" }));
+    await get(cache, query({ endDate: today }));
+    assert.deepEqual(await cache.getStats(), { enabled: true, entries: 3, permanent: 2 });
+  });
+
+  test("purges results overlapping the window and covering the region", async () => {
+    const cache = new Cache(memory.database, 60 * 1000, 30 * DAY_MS);
+    await get(cache, query({ region: "region1" }));
+    await get(cache, query({ region: "region2" }));
+    await get(cache, query());
+    await get(cache, query({ region: "region1", startDate: "2022-01-01", endDate: "2022-03-31" }));
+
+    assert.equal(await cache.purge({ from: "2023-02-01", to: "2023-02-28", region: "North Region" }), 2);
+    assert.deepEqual(memory.rows.map(({ region }) => region), ["region2", "region1"]);
+
+    assert.equal(await cache.purge({ to: "2022-12-31" }), 1);
+    assert.equal(await cache.purge({}), 1);
+    assert.deepEqual(await cache.getStats(), { enabled: true, entries: 0, permanent: 0 });
+  });
+});
@@ -0,0 +1,200 @@
+import crypto from "crypto";
+import { and, count, eq, gt, gte, isNull, lt, lte, or, type SQL } from "drizzle-orm";
+import type { ClassificationScheme } from "@shared/classification";
+import { DEFAULT_INDEX } from "@shared/indices";
+import { cachedResults, type SoilMoistureQuery, type SoilMoistureResponse } from "@shared/schema";
+import { getBaseline } from "./climatology";
+import { classificationSchemes } from "./classificationSchemes";
+import { db, type Database } from "./db";
+import { provider } from "./provider";
+
+// Computed soil moisture responses are kept in the result_cache table,
+// keyed by a hash of the query with every default filled in, so identical
+// queries are answered without the provider across tabs and restarts.
+// Windows that ended long enough ago are closed and cached for good; more
+// recent ones may still gain imagery and expire after a short TTL. Without a
+// database every query is computed.
+
+const DEFAULT_TTL_MINUTES = 60;
+// Days after its end before a window counts as closed, allowing for late
+// scenes and reprocessing
+const DEFAULT_SETTLE_DAYS = 30;
+// Expired rows are deleted at most this often
+const SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// Raised whenever the shape of a response changes, so older rows are never served
+const CACHE_VERSION = 2;
+
+export type CacheStatus = "hit" | "miss" | "bypass";
+
+export interface ResultPurgeOptions {
+  // Drop results whose date window overlaps [from, to]; both ends optional
+  from?: string;
+  to?: string;
+  // Drop results covering the region, including those of the whole map
+  region?: string;
+}
+
+// Regions are selected by id or name; both are stored and matched as the id,
+// and "entire" as the whole map (null). Unknown regions are kept as given.
+async function canonicalRegion(region: string | undefined): Promise<string | null> {
+  if (!region || region === "entire") return null;
+  const regions = await provider.getRegions();
+  return regions.find(({ id, name }) => id === region || name === region)?.id ?? region;
+}
+
+export class ResultCache {
+  private pending = new Map<string, Promise<SoilMoistureResponse>>();
+  private lastSweep = 0;
+
+  constructor(
+    private readonly db: Database | undefined,
+    private readonly ttlMs: number,
+    private readonly settleMs: number,
+  ) {}
+
+  // Everything the response depends on, with defaults filled in so that
+  // omitted and explicit default parameters share an entry. The scheme is
+  // included whole, so editing a custom scheme never serves stale classes.
+  private normalize(query: SoilMoistureQuery, region: string | null, scheme: ClassificationScheme) {
+    const smoothing = query.smoothing ?? "none";
+    return {
+      version: CACHE_VERSION,
+      provider: provider.name,
+      startDate: query.startDate,
+      endDate: query.endDate,
+      timeStep: query.timeStep,
+      region,
+      index: query.index ?? DEFAULT_INDEX,
+      reference: query.reference ?? null,
+      maskCloud: query.maskCloud ?? true,
+      maskShadow: query.maskShadow ?? true,
+      maskCirrus: query.maskCirrus ?? true,
+      maskSnow: query.maskSnow ?? true,
+      maskSaturated: query.maskSaturated ?? true,
+      landCover: query.landCover ? [...query.landCover].sort((a, b) => a - b) : null,
+      baseline: getBaseline(query),
+      scheme,
+      gapFill: query.gapFill ?? "none",
+      smoothing,
+      smoothingWindow: smoothing !== "none" ? (query.smoothingWindow ?? null) : null,
+    };
+  }
+
+  private expiresAt(query: SoilMoistureQuery): Date | null {
+    const closed = Date.parse(query.endDate) + this.settleMs < Date.now();
+    return closed ? null : new Date(Date.now() + this.ttlMs);
+  }
+
+  async get(
+    query: SoilMoistureQuery,
+    compute: () => Promise<SoilMoistureResponse>,
+  ): Promise<{ response: SoilMoistureResponse; status: CacheStatus }> {
+    if (!this.db) return { response: await compute(), status: "bypass" };
+
+    const scheme = await classificationSchemes.resolve(query.scheme, query.index ?? DEFAULT_INDEX);
+    const region = await canonicalRegion(query.region);
+    const normalized = this.normalize(query, region, scheme);
+    const hash = crypto.createHash("sha256").update(JSON.stringify(normalized)).digest("hex");
+
+    const cached = await this.lookup(this.db, hash);
+    if (cached) return { response: cached, status: "hit" };
+
+    // Identical queries arriving meanwhile share one computation
+    let pending = this.pending.get(hash);
+    if (!pending) {
+      pending = compute()
+        .then((response) => {
+          // Written in the background; a failing database only costs the cache
+          this.store(this.db!, hash, normalized, query, response)
+            .catch((error) => console.error("Failed to write the result cache:", error));
+          return response;
+        })
+        .finally(() => this.pending.delete(hash));
+      this.pending.set(hash, pending);
+    }
+    return { response: await pending, status: "miss" };
+  }
+
+  // A failing database only costs the cache, never the request
+  private async lookup(database: Database, hash: string): Promise<SoilMoistureResponse | undefined> {
+    try {
+      const [row] = await database
+        .select({ response: cachedResults.response })
+        .from(cachedResults)
+        .where(and(
+          eq(cachedResults.queryHash, hash),
+          or(isNull(cachedResults.expiresAt), gt(cachedResults.expiresAt, new Date())),
+        ))
+        .limit(1);
+      return row?.response as SoilMoistureResponse | undefined;
+    } catch (error) {
+      console.error("Failed to read the result cache:", error);
+      return undefined;
+    }
+  }
+
+  private async store(
+    database: Database,
+    hash: string,
+    normalized: ReturnType<ResultCache["normalize"]>,
+    query: SoilMoistureQuery,
+    response: SoilMoistureResponse,
+  ) {
+    const row = {
+      query: normalized,
+      region: normalized.region,
+      startDate: new Date(query.startDate),
+      endDate: new Date(query.endDate),
+      response,
+      createdAt: new Date(),
+      expiresAt: this.expiresAt(query),
+    };
+
+    await database
+      .insert(cachedResults)
+      .values({ queryHash: hash, ...row })
+      .onConflictDoUpdate({ target: cachedResults.queryHash, set: row });
+
+    if (Date.now() - this.lastSweep > SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now();
+      await database.delete(cachedResults).where(lt(cachedResults.expiresAt, new Date()));
+    }
+  }
+
+  async getStats() {
+    if (!this.db) return { enabled: false, entries: 0, permanent: 0 };
+
+    const [{ entries }] = await this.db.select({ entries: count() }).from(cachedResults);
+    const [{ permanent }] = await this.db
+      .select({ permanent: count() })
+      .from(cachedResults)
+      .where(isNull(cachedResults.expiresAt));
+    return { enabled: true, entries, permanent };
+  }
+
+  // Returns the number of results removed
+  async purge({ from, to, region }: ResultPurgeOptions): Promise<number> {
+    if (!this.db) return 0;
+
+    const conditions: SQL[] = [];
+    if (from) conditions.push(gte(cachedResults.endDate, new Date(from)));
+    if (to) conditions.push(lte(cachedResults.startDate, new Date(to)));
+    const canonical = await canonicalRegion(region);
+    if (canonical) conditions.push(or(eq(cachedResults.region, canonical), isNull(cachedResults.region))!);
+
+    const removed = await this.db
+      .delete(cachedResults)
+      .where(and(...conditions))
+      .returning({ id: cachedResults.id });
+    return removed.length;
+  }
+}
+
+export const resultCache = new ResultCache(
+  db,
+  (Number(process.env.RESULT_CACHE_TTL_MINUTES) || DEFAULT_TTL_MINUTES) * MINUTE_MS,
+  (Number(process.env.RESULT_CACHE_SETTLE_DAYS) || DEFAULT_SETTLE_DAYS) * DAY_MS,
+);
@@ -0,0 +1,126 @@
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+
+// The whole API against the demo fixtures. The provider and the stores are
+// chosen when their modules load, so the environment is set before the
+// routes are imported.
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), "routes-test-"));
+process.env.SOIL_MOISTURE_PROVIDER = "fixture";
+process.env.JOBS_DIR = path.join(directory, "jobs");
+process.env.CLASSIFICATION_SCHEMES_FILE = path.join(directory, "classification-schemes.json");
+process.env.TILE_CACHE_DIR = path.join(directory, "tiles");
+process.env.DATA_POLL_MINUTES = "0";
+delete process.env.DATABASE_URL;
+
+let server: Server;
+let base: string;
+
+const get = (url: string) => fetch(`${base}${url}`);
+
+const post = (url: string, body: unknown) =>
+  fetch(`${base}${url}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+describe("API on the fixture provider", () => {
+  before(async () => {
+    const { default: express } = await import("express");
+    const { registerRoutes } = await import("./routes");
+    const app = express();
+    app.use(express.json());
+    server = await registerRoutes(app);
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test("lists the fixture regions", async () => {
+    const response = await get("/api/regions");
+    assert.equal(response.status, 200);
+    const regions = await response.json();
+    assert.equal(regions.length, 5);
+    assert.deepEqual(regions[0], { id: "region1", name: "North Region" });
+  });
+
+  test("answers a soil moisture query for one region", async () => {
+    const response = await get(
+      "/api/soil-moisture?startDate=2023-01-01&endDate=2023-03-31&timeStep=monthly&region=region1",
+    );
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("x-result-cache"), "bypass");
+    const body = await response.json();
+    assert.deepEqual(body.data.map((row: { region: string }) => row.region), ["North Region"]);
+    assert.equal(typeof body.data[0].value, "number");
+    assert.ok(body.data[0].category);
+  });
+
+  test("leaves a window without observations unclassified", async () => {
+    const response = await get(
+      "/api/soil-moisture?startDate=2030-01-01&endDate=2030-03-31&timeStep=monthly&region=region1",
+    );
+    assert.equal(response.status, 200);
+    const [result] = (await response.json()).data;
+    assert.equal(result.value, null);
+    assert.equal(result.status, "No Data");
+    assert.equal(result.category, undefined);
+    assert.equal(result.climatology, undefined);
+  });
+
+  test("gives the same answer to the same query", async () => {
+    const url = "/api/soil-moisture?startDate=2022-06-01&endDate=2022-08-31&timeStep=monthly";
+    const [first, second] = await Promise.all([get(url), get(url)]);
+    assert.deepEqual(await first.json(), await second.json());
+  });
+
+  test("rejects a window that ends before it starts", async () => {
+    const response = await get("/api/soil-moisture?startDate=2023-03-31&endDate=2023-01-01&timeStep=monthly");
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).message, "Invalid request parameters");
+  });
+
+  test("rejects an unknown region", async () => {
+    for (const url of [
+      "/api/soil-moisture?startDate=2023-01-01&endDate=2023-03-31&timeStep=monthly&region=nope",
+      "/api/precipitation?startDate=2023-01-01&endDate=2023-03-31&timeStep=monthly&region=nope",
+      "/api/landcover?region=nope",
+    ]) {
+      const response = await get(url);
+      assert.equal(response.status, 400, url);
+      assert.equal((await response.json()).message, 'Unknown region "nope"');
+    }
+  });
+
+  test("runs an analysis posted as a request", async () => {
+    const response = await post("/api/analysis", {
+      type: "trend",
+      startDate: "2020-01-01",
+      endDate: "2022-12-31",
+      timeStep: "monthly",
+      region: "Central Plains",
+    });
+    assert.equal(response.status, 200);
+    const envelope = await response.json();
+    assert.equal(envelope.type, "trend");
+  });
+
+  test("rejects a tile outside its zoom level", async () => {
+    const response = await get("/api/tiles/landcover/2/4/0.png");
+    assert.equal(response.status, 400);
+  });
+
+  test("rejects an analysis of an unknown type", async () => {
+    const response = await post("/api/analysis", { type: "forecast", startDate: "2020-01-01", endDate: "2020-12-31" });
+    assert.equal(response.status, 400);
+  });
+});
@@ -1,104 +1,348 @@
 import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { soilMoistureQuerySchema } from "@shared/schema";
-import { calculateSoilMoistureIndex } from "./earthEngine";
+import {
+  analysisRequestSchema,
+  anomalyAnalysisQuerySchema,
+  changeAnalysisQuerySchema,
+  classificationSchemeQuerySchema,
+  landCoverQuerySchema,
+  precipitationQuerySchema,
+  resultCachePurgeSchema,
+  soilMoistureQuerySchema,
+  tileCachePurgeSchema,
+  tileCoordinatesSchema,
+  tileLayers,
+  trendAnalysisQuerySchema,
+  type TileLayer
+} from "@shared/schema";
+import { provider } from "./provider";
+import { getSoilMoisture } from "./soilMoisture";
+import { getAnomalyAnalysis, getChangeAnalysis, getTrendAnalysis, runAnalysis } from "./analysis";
+import { parseTileRequest, tileUrlTemplate } from "./tiles";
+import { tileCache, tileETag } from "./tileCache";
+import { resultCache } from "./resultCache";
+import { requireAdmin } from "./admin";
+import { classificationSchemes } from "./classificationSchemes";
+import { isFinished, jobs } from "./jobs";
+import { liveUpdates } from "./live";
+import { dataAvailability } from "./dataAvailability";
+import { classificationSchemeSchema } from "@shared/classification";
+import { moistureIndexInfo } from "@shared/indices";
+import { ProviderUnavailableError, UnsupportedQueryError } from "./errors";
 import { z } from "zod";
 
+// Browsers may reuse a tile this long (seconds) before revalidating its ETag
+const TILE_MAX_AGE = Number(process.env.TILE_CACHE_MAX_AGE) || 3600;
+
+// Answer a failed request: invalid parameters and queries the provider cannot
+// answer with 400, an unavailable provider with 503, anything else with 500
+function sendError(res: Response, error: unknown, action: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({
+      message: 'Invalid request parameters',
+      errors: error.errors
+    });
+  }
+
+  if (error instanceof UnsupportedQueryError) {
+    return res.status(400).json({ message: error.message });
+  }
+
+  if (error instanceof ProviderUnavailableError) {
+    return res.status(503).json({
+      message: error.message,
+      status: provider.getStatus()
+    });
+  }
+
+  console.error(`Failed to ${action}:`, error);
+  res.status(500).json({
+    message: `Failed to ${action}`
+  });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // API endpoint to fetch soil moisture data
   app.get('/api/soil-moisture', async (req: Request, res: Response) => {
     try {
       // Parse and validate the query parameters
-      const validatedQuery = soilMoistureQuerySchema.parse({
-        startDate: req.query.startDate,
-        endDate: req.query.endDate,
-        timeStep: req.query.timeStep,
-        region: req.query.region
-      });
+      const validatedQuery = soilMoistureQuerySchema.parse(req.query);
 
-      // Calculate soil moisture index from Google Earth Engine
-      const soilMoistureData = await calculateSoilMoistureIndex(
-        validatedQuery.startDate,
-        validatedQuery.endDate,
-        validatedQuery.timeStep,
-        validatedQuery.region
+      // Calculate soil moisture index with the configured provider, unless
+      // the same query has been answered before
+      const { response: soilMoistureData, status } = await resultCache.get(
+        validatedQuery,
+        () => getSoilMoisture(validatedQuery)
       );
 
+      res.set('X-Result-Cache', status);
       res.json(soilMoistureData);
+    } catch (error) {
+      sendError(res, error, "fetch soil moisture data");
+    }
+  });
+
+  // API endpoint to fetch accumulated precipitation for the rainfall layer
+  app.get('/api/precipitation', async (req: Request, res: Response) => {
+    try {
+      const validatedQuery = precipitationQuerySchema.parse(req.query);
+      const precipitation = await provider.getPrecipitation(validatedQuery);
+
+      res.json({
+        ...precipitation,
+        tileUrl: tileUrlTemplate({ layer: 'precipitation', query: validatedQuery })
+      });
+    } catch (error) {
+      sendError(res, error, "fetch precipitation data");
+    }
+  });
+
+  // API endpoint for the Mann–Kendall trend test and Sen's slope per region,
+  // with an optional per-pixel slope layer
+  app.get('/api/analysis/trend', async (req: Request, res: Response) => {
+    try {
+      const validatedQuery = trendAnalysisQuerySchema.parse(req.query);
+      res.json(await getTrendAnalysis(validatedQuery));
+    } catch (error) {
+      sendError(res, error, "run trend analysis");
+    }
+  });
+
+  // API endpoint for the change between an earlier window and the query's
+  // window per region, with the area of significant wetting and drying and an
+  // optional per-pixel difference layer
+  app.get('/api/analysis/change', async (req: Request, res: Response) => {
+    try {
+      const validatedQuery = changeAnalysisQuerySchema.parse(req.query);
+      res.json(await getChangeAnalysis(validatedQuery));
+    } catch (error) {
+      sendError(res, error, "run change analysis");
+    }
+  });
+
+  // API endpoint for anomalous events per region against the climatology,
+  // with an optional per-pixel z-score layer
+  app.get('/api/analysis/anomaly', async (req: Request, res: Response) => {
+    try {
+      const validatedQuery = anomalyAnalysisQuerySchema.parse(req.query);
+      res.json(await getAnomalyAnalysis(validatedQuery));
+    } catch (error) {
+      sendError(res, error, "run anomaly analysis");
+    }
+  });
+
+  // API endpoint to fetch land cover class shares for the land cover layer
+  app.get('/api/landcover', async (req: Request, res: Response) => {
+    try {
+      const validatedQuery = landCoverQuerySchema.parse(req.query);
+      const landCover = await provider.getLandCover(validatedQuery);
+
+      res.json({
+        ...landCover,
+        tileUrl: tileUrlTemplate({ layer: 'landcover', query: validatedQuery })
+      });
+    } catch (error) {
+      sendError(res, error, "fetch land cover data");
+    }
+  });
+
+  // API endpoint serving XYZ raster tiles of a map layer; the query string
+  // carries the same parameters as the layer's data endpoint
+  app.get('/api/tiles/:layer/:z/:x/:y.png', async (req: Request, res: Response) => {
+    const layer = req.params.layer as TileLayer;
+    if (!tileLayers.includes(layer)) {
+      return res.status(404).json({ message: `Unknown tile layer: ${layer}` });
+    }
+
+    try {
+      const tile = tileCoordinatesSchema.parse(req.params);
+      const request = parseTileRequest(layer, req.query);
+      const { png, hit } = await tileCache.get(request, tile, () => provider.getTile(request, tile));
+
+      res.set({
+        'ETag': tileETag(png),
+        'Cache-Control': `public, max-age=${TILE_MAX_AGE}`,
+        'X-Tile-Cache': hit ? 'hit' : 'miss'
+      });
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+      res.type('png').send(png);
+    } catch (error) {
+      sendError(res, error, "render map tile");
+    }
+  });
+
+  // Admin endpoints to inspect and purge the tile cache, e.g. after
+  // reprocessing imagery for a date range
+  app.get('/api/admin/tile-cache', requireAdmin, (_req: Request, res: Response) => {
+    res.json(tileCache.getStats());
+  });
+
+  app.delete('/api/admin/tile-cache', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const options = tileCachePurgeSchema.parse(req.query);
+      const removed = await tileCache.purge(options);
+
+      res.json({ removed, ...tileCache.getStats() });
+    } catch (error) {
+      sendError(res, error, "purge tile cache");
+    }
+  });
+
+  // Admin endpoints to inspect and purge the result cache, e.g. after
+  // reprocessing imagery for a closed date range
+  app.get('/api/admin/result-cache', requireAdmin, async (_req: Request, res: Response) => {
+    try {
+      res.json(await resultCache.getStats());
+    } catch (error) {
+      sendError(res, error, "read result cache stats");
+    }
+  });
+
+  app.delete('/api/admin/result-cache', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const options = resultCachePurgeSchema.parse(req.query);
+      const removed = await resultCache.purge(options);
+
+      res.json({ removed, ...(await resultCache.getStats()) });
+    } catch (error) {
+      sendError(res, error, "purge result cache");
+    }
+  });
+
+  // API endpoint to list the classification schemes for status, map colors
+  // and legend; select one with the `scheme` query parameter
+  app.get('/api/classification-schemes', async (req: Request, res: Response) => {
+    try {
+      const { index } = classificationSchemeQuerySchema.parse(req.query);
+      res.json(await classificationSchemes.list(index));
+    } catch (error) {
+      sendError(res, error, "fetch classification schemes");
+    }
+  });
+
+  // Admin endpoints to add, replace and remove custom classification schemes
+  app.post('/api/admin/classification-schemes', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const scheme = classificationSchemeSchema.parse(req.body);
+      if (classificationSchemes.isBuiltIn(scheme.id)) {
+        return res.status(409).json({ message: `"${scheme.id}" is a built-in scheme` });
+      }
+
+      res.status(201).json(await classificationSchemes.put(scheme));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({
-          message: 'Invalid request parameters',
+          message: 'Invalid classification scheme',
           errors: error.errors
         });
       }
-      
-      console.error("Error fetching soil moisture data:", error);
-      res.status(500).json({
-        message: "Failed to fetch soil moisture data"
-      });
+
+      sendError(res, error, "save classification scheme");
+    }
+  });
+
+  app.delete('/api/admin/classification-schemes/:id', requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+      if (classificationSchemes.isBuiltIn(id)) {
+        return res.status(409).json({ message: `"${id}" is a built-in scheme` });
+      }
+      if (!(await classificationSchemes.remove(id))) {
+        return res.status(404).json({ message: `No custom scheme "${id}"` });
+      }
+
+      res.status(204).end();
+    } catch (error) {
+      sendError(res, error, "remove classification scheme");
     }
   });
 
+  // API endpoint to report the data provider's state (e.g. Earth Engine session)
+  app.get('/api/status', (_req: Request, res: Response) => {
+    res.json({
+      provider: provider.name,
+      ...provider.getStatus()
+    });
+  });
+
   // API endpoint to get available regions
   app.get('/api/regions', async (_req: Request, res: Response) => {
     try {
-      // In a real application, this would fetch regions from a database
-      // For now, return some predefined regions
-      const regions = [
-        { id: 'region1', name: 'North Region' },
-        { id: 'region2', name: 'Central Plains' },
-        { id: 'region3', name: 'Eastern Basin' },
-        { id: 'region4', name: 'Southern Valley' },
-        { id: 'region5', name: 'Western Hills' },
-      ];
-      
+      const regions = await provider.getRegions();
       res.json(regions);
     } catch (error) {
-      console.error("Error fetching regions:", error);
-      res.status(500).json({ 
-        message: "Failed to fetch regions" 
-      });
+      sendError(res, error, "fetch regions");
+    }
+  });
+
+  // API endpoint to list the moisture indices the provider can compute
+  app.get('/api/indices', async (_req: Request, res: Response) => {
+    try {
+      const indices = await provider.getIndices();
+      res.json(indices.map((index) => moistureIndexInfo[index]));
+    } catch (error) {
+      sendError(res, error, "fetch indices");
     }
   });
 
-  // API endpoint to run custom analysis
+  // API endpoint running one analysis of any type, answering with a
+  // versioned envelope around its result
   app.post('/api/analysis', async (req: Request, res: Response) => {
     try {
-      const { type, region, startDate, endDate } = req.body;
-      
-      // Validate request body
-      if (!type || !region || !startDate || !endDate) {
-        return res.status(400).json({
-          message: 'Missing required parameters'
-        });
+      const request = analysisRequestSchema.parse(req.body);
+      res.json(await runAnalysis(request));
+    } catch (error) {
+      sendError(res, error, "run analysis");
+    }
+  });
+
+  // API endpoint queueing an analysis as a background job; poll the job for
+  // its status and result
+  app.post('/api/jobs', async (req: Request, res: Response) => {
+    try {
+      const request = analysisRequestSchema.parse(req.body);
+      const job = await jobs.submit(request);
+      res.status(202).location(`/api/jobs/${job.id}`).json(job);
+    } catch (error) {
+      sendError(res, error, "queue analysis job");
+    }
+  });
+
+  app.get('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await jobs.get(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: `No job "${req.params.id}"` });
       }
-      
-      // In a real application, this would run a specific analysis
-      // For now, return some mock data
-      const analysisResult = {
-        type,
-        region,
-        startDate,
-        endDate,
-        result: {
-          mean: 0.35 + Math.random() * 0.2,
-          min: 0.2 + Math.random() * 0.1,
-          max: 0.4 + Math.random() * 0.2,
-        }
-      };
-      
-      res.json(analysisResult);
-    } catch (error) {
-      console.error("Error running analysis:", error);
-      res.status(500).json({
-        message: "Failed to run analysis"
-      });
+      res.json(job);
+    } catch (error) {
+      sendError(res, error, "fetch analysis job");
+    }
+  });
+
+  // Cancel a queued or running job
+  app.delete('/api/jobs/:id', async (req: Request, res: Response) => {
+    try {
+      const job = await jobs.get(req.params.id);
+      if (!job) {
+        return res.status(404).json({ message: `No job "${req.params.id}"` });
+      }
+      if (isFinished(job)) {
+        return res.status(409).json({ message: `Job "${job.id}" already ${job.status}` });
+      }
+      res.json(await jobs.cancel(job.id));
+    } catch (error) {
+      sendError(res, error, "cancel analysis job");
     }
   });
 
   const httpServer = createServer(app);
+  liveUpdates.attach(httpServer);
+  dataAvailability.start();
+  httpServer.on("close", () => dataAvailability.stop());
 
   return httpServer;
 }
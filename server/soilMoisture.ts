@@ -0,0 +1,52 @@
+import type { SoilMoistureQuery, SoilMoistureResponse } from "@shared/schema";
+import { DEFAULT_INDEX } from "@shared/indices";
+import { classificationSchemes } from "./classificationSchemes";
+import { trackProgress } from "./progress";
+import { provider } from "./provider";
+import { tileUrlTemplate } from "./tiles";
+import { processTrends } from "./trendProcessing";
+
+// Answer a soil moisture query with the configured provider, adding the
+// raster tile template, the classification scheme for the legend and the
+// reference index (e.g. SMAP) when one is requested. Gap filling and
+// smoothing only touch the trend series, so the provider and the tiles never
+// see those parameters. onProgress gets the percent done and, as the
+// provider has them, responses for the periods finished so far (without the
+// reference index).
+export async function getSoilMoisture(
+  query: SoilMoistureQuery,
+  signal?: AbortSignal,
+  onProgress?: (percent: number, partial?: SoilMoistureResponse) => void,
+): Promise<SoilMoistureResponse> {
+  const { reference, gapFill, smoothing, smoothingWindow, ...primaryQuery } = query;
+
+  const tileUrl = tileUrlTemplate({ layer: "soil-moisture", query: primaryQuery });
+  const classification = await classificationSchemes.resolve(query.scheme, primaryQuery.index ?? DEFAULT_INDEX);
+  // Anomalies stay as observed: z-scores of interpolated or smoothed values
+  // would overstate how unusual a period was
+  const processed = (result: SoilMoistureResponse): SoilMoistureResponse =>
+    ({ ...result, trends: processTrends(result.trends, query), classification, tileUrl });
+
+  const percentDone = trackProgress(reference ? 2 : 1);
+  const [result, referenceResult] = await Promise.all([
+    provider.getSoilMoisture(primaryQuery, signal, (progress) =>
+      onProgress?.(percentDone(0, progress), progress.partial && processed(progress.partial))),
+    reference
+      ? provider.getSoilMoisture({ ...primaryQuery, index: reference }, signal, (progress) =>
+          onProgress?.(percentDone(1, progress)))
+      : undefined,
+  ]);
+
+  if (!referenceResult) {
+    return processed(result);
+  }
+
+  return {
+    ...processed(result),
+    reference: {
+      index: referenceResult.index,
+      data: referenceResult.data,
+      trends: processTrends(referenceResult.trends, query),
+    },
+  };
+}
@@ -0,0 +1,105 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  leastSquares,
+  linearRegression,
+  mannKendall,
+  mean,
+  median,
+  normalCdf,
+  normalQuantile,
+  sampleVariance,
+  sensSlope,
+  welchTest,
+} from "./statistics";
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  assert.ok(Math.abs(actual - expected) < tolerance, `${actual} is not close to ${expected}`);
+
+describe("descriptive statistics", () => {
+  test("mean, median and sample variance", () => {
+    assert.equal(mean([]), 0);
+    assert.equal(mean([1, 2, 6]), 3);
+    assert.equal(median([5, 1, 3]), 3);
+    assert.equal(median([4, 1, 3, 2]), 2.5);
+    assert.equal(sampleVariance([2, 4, 4, 4, 5, 5, 7, 9]), 32 / 7);
+  });
+});
+
+describe("regression", () => {
+  test("fits a straight line exactly", () => {
+    const { slope, intercept, r2 } = linearRegression([0, 1, 2, 3], [1, 3, 5, 7]);
+    assert.equal(slope, 2);
+    assert.equal(intercept, 1);
+    assert.equal(r2, 1);
+  });
+
+  test("treats a vertical cloud of points as flat", () => {
+    assert.deepEqual(linearRegression([1, 1, 1], [1, 2, 3]), { intercept: 2, slope: 0, r2: 0 });
+  });
+
+  test("solves least squares and reports singular designs", () => {
+    const coefficients = leastSquares([[1, 0], [1, 1], [1, 2]], [1, 3, 5])!;
+    close(coefficients[0], 1);
+    close(coefficients[1], 2);
+    assert.equal(leastSquares([[1, 2], [2, 4], [3, 6]], [1, 2, 3]), undefined);
+  });
+});
+
+describe("normal distribution", () => {
+  test("cdf and quantile agree", () => {
+    close(normalCdf(0), 0.5);
+    close(normalCdf(1.959964), 0.975, 1e-6);
+    close(normalQuantile(0.975), 1.959964, 1e-5);
+    close(normalQuantile(0.5), 0, 1e-9);
+  });
+});
+
+describe("mannKendall", () => {
+  test("finds a significant monotonic increase", () => {
+    const { s, tau, z, pValue } = mannKendall([1, 2, 3, 4, 5, 6, 7, 8]);
+    assert.equal(s, 28);
+    assert.equal(tau, 1);
+    close(z, 27 / Math.sqrt((8 * 7 * 21) / 18));
+    assert.ok(pValue < 0.01);
+  });
+
+  test("finds no trend in an alternating series", () => {
+    const { s, pValue } = mannKendall([1, 3, 1, 3, 1, 3]);
+    assert.ok(Math.abs(s) <= 3);
+    assert.ok(pValue > 0.5);
+  });
+
+  test("corrects the variance for ties", () => {
+    // Three tied values take 3·2·11 off n(n−1)(2n+5); z is continuity corrected
+    const { s, z } = mannKendall([1, 2, 2, 2, 3]);
+    assert.equal(s, 7);
+    close(z, 6 / Math.sqrt((5 * 4 * 15 - 3 * 2 * 11) / 18));
+  });
+
+  test("cannot show a trend in fewer than three values", () => {
+    assert.deepEqual(mannKendall([1, 2]), { s: 0, tau: 0, z: 0, pValue: 1 });
+  });
+});
+
+describe("sensSlope", () => {
+  test("ignores an outlier", () => {
+    assert.deepEqual(sensSlope([0, 1, 2, 3, 4], [0, 1, 2, 3, 100]), { slope: 1, intercept: 0 });
+  });
+
+  test("skips pairs taken at the same time", () => {
+    assert.equal(sensSlope([0, 0, 1], [0, 5, 2]).slope, -0.5);
+  });
+});
+
+describe("welchTest", () => {
+  test("finds a clear difference in means", () => {
+    const { t, pValue } = welchTest([1, 2, 1, 2, 1, 2], [5, 6, 5, 6, 5, 6]);
+    assert.ok(t > 0);
+    assert.ok(pValue < 0.001);
+  });
+
+  test("cannot compare too few values", () => {
+    assert.deepEqual(welchTest([1], [2, 3]), { t: 0, pValue: 1 });
+  });
+});
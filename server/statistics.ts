@@ -0,0 +1,171 @@
+// Small numeric helpers shared by the providers and analyses
+
+export const mean = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+export interface LinearFit {
+  intercept: number;
+  slope: number;
+  r2: number;
+}
+
+// Ordinary least squares fit of y = intercept + slope * x
+export function linearRegression(xs: number[], ys: number[]): LinearFit {
+  const n = xs.length;
+  if (n === 0 || n !== ys.length) {
+    throw new Error('linearRegression needs two non-empty series of equal length');
+  }
+
+  const meanX = mean(xs);
+  const meanY = mean(ys);
+  let sxx = 0;
+  let sxy = 0;
+  let syy = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    sxx += dx * dx;
+    sxy += dx * dy;
+    syy += dy * dy;
+  }
+
+  // A vertical cloud of points has no defined slope; treat it as flat
+  const slope = sxx === 0 ? 0 : sxy / sxx;
+  const r2 = sxx === 0 || syy === 0 ? 0 : (sxy * sxy) / (sxx * syy);
+  return { intercept: meanY - slope * meanX, slope, r2 };
+}
+
+// Least squares coefficients for ys ≈ rows · coefficients, by solving the
+// normal equations; undefined when the design is singular
+export function leastSquares(rows: number[][], ys: number[]): number[] | undefined {
+  const k = rows[0]?.length ?? 0;
+  if (k === 0 || rows.length < k) return undefined;
+
+  // Augmented normal matrix [XᵀX | Xᵀy]
+  const a = Array.from({ length: k }, (_, i) => {
+    const row = new Array<number>(k + 1).fill(0);
+    rows.forEach((x, n) => {
+      for (let j = 0; j < k; j++) row[j] += x[i] * x[j];
+      row[k] += x[i] * ys[n];
+    });
+    return row;
+  });
+
+  // Gaussian elimination with partial pivoting
+  for (let col = 0; col < k; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < k; r++) {
+      if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-12) return undefined;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let r = 0; r < k; r++) {
+      if (r === col) continue;
+      const factor = a[r][col] / a[col][col];
+      for (let c = col; c <= k; c++) a[r][c] -= factor * a[col][c];
+    }
+  }
+
+  return a.map((row, i) => row[k] / row[i]);
+}
+
+export const median = (values: number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26,
+// absolute error below 1.5e-7)
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429)))) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+export interface MannKendallResult {
+  s: number;
+  // Kendall's tau between time and value
+  tau: number;
+  z: number;
+  // Two-sided
+  pValue: number;
+}
+
+// Mann–Kendall test for a monotonic trend in a series ordered by time, with
+// the variance corrected for tied values. Fewer than three values cannot
+// show a trend.
+export function mannKendall(values: number[]): MannKendallResult {
+  const n = values.length;
+  if (n < 3) return { s: 0, tau: 0, z: 0, pValue: 1 };
+
+  let s = 0;
+  for (let i = 0; i < n - 1; i++) {
+    for (let j = i + 1; j < n; j++) {
+      s += Math.sign(values[j] - values[i]);
+    }
+  }
+
+  const ties = new Map<number, number>();
+  values.forEach((value) => ties.set(value, (ties.get(value) ?? 0) + 1));
+  let tieTerm = 0;
+  ties.forEach((t) => {
+    tieTerm += t * (t - 1) * (2 * t + 5);
+  });
+  const variance = (n * (n - 1) * (2 * n + 5) - tieTerm) / 18;
+
+  const z = variance <= 0 || s === 0 ? 0 : (s - Math.sign(s)) / Math.sqrt(variance);
+  return { s, tau: s / ((n * (n - 1)) / 2), z, pValue: 2 * (1 - normalCdf(Math.abs(z))) };
+}
+
+// Sen's slope: the median of the slopes between every pair of points, with
+// the intercept chosen so the line passes through the medians
+export function sensSlope(xs: number[], ys: number[]): { slope: number; intercept: number } {
+  const slopes: number[] = [];
+  for (let i = 0; i < xs.length - 1; i++) {
+    for (let j = i + 1; j < xs.length; j++) {
+      if (xs[j] !== xs[i]) slopes.push((ys[j] - ys[i]) / (xs[j] - xs[i]));
+    }
+  }
+
+  const slope = median(slopes);
+  return { slope, intercept: median(ys.map((y, i) => y - slope * xs[i])) };
+}
+
+// Unbiased sample variance
+export const sampleVariance = (values: number[]) => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+// Value below which the standard normal distribution has probability p,
+// found by bisection on normalCdf
+export function normalQuantile(p: number): number {
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 60; i++) {
+    const middle = (low + high) / 2;
+    if (normalCdf(middle) < p) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+}
+
+// Welch's two-sample statistic for a difference in means (b − a), compared
+// with the normal distribution; with the dozen or more periods of a typical
+// window that is close to the t distribution. Fewer than two values on
+// either side cannot show a difference.
+export function welchTest(a: number[], b: number[]): { t: number; pValue: number } {
+  if (a.length < 2 || b.length < 2) return { t: 0, pValue: 1 };
+
+  const standardError = Math.sqrt(sampleVariance(a) / a.length + sampleVariance(b) / b.length);
+  const difference = mean(b) - mean(a);
+  // Without any spread, any difference at all is significant
+  if (standardError === 0) return { t: 0, pValue: difference === 0 ? 1 : 0 };
+
+  const t = difference / standardError;
+  return { t, pValue: 2 * (1 - normalCdf(Math.abs(t))) };
+}
@@ -0,0 +1,75 @@
+import { after, beforeEach, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { UnsupportedQueryError } from "./errors";
+import { TileCache } from "./tileCache";
+import type { TileRequest } from "./tiles";
+
+const root = fs.mkdtempSync(path.join(os.tmpdir(), "tile-cache-test-"));
+const directory = path.join(root, "tiles");
+const tile = { z: 3, x: 1, y: 2 };
+const png = Buffer.from("png");
+
+const precipitation = (startDate: string, endDate: string): TileRequest => ({
+  layer: "precipitation",
+  query: { startDate, endDate, timeStep: "monthly" },
+});
+
+const files = (dir: string): string[] =>
+  fs.existsSync(dir)
+    ? fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) =>
+        entry.isDirectory() ? files(path.join(dir, entry.name)) : [path.join(dir, entry.name)])
+    : [];
+
+describe("TileCache", () => {
+  beforeEach(() => fs.rmSync(root, { recursive: true, force: true }));
+  after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+  test("renders a tile once and serves it from disk afterwards", async () => {
+    const cache = new TileCache(directory, 1024);
+    let renders = 0;
+    const render = async () => {
+      renders++;
+      return png;
+    };
+
+    assert.equal((await cache.get(precipitation("2023-01-01", "2023-03-31"), tile, render)).hit, false);
+    const second = await cache.get(precipitation("2023-01-01", "2023-03-31"), tile, render);
+    assert.equal(second.hit, true);
+    assert.deepEqual(second.png, png);
+    assert.equal(renders, 1);
+  });
+
+  test("rejects dates that would escape the cache directory", async () => {
+    const cache = new TileCache(directory, 1024);
+    const escaping = precipitation("../../../../escaped/x", "2023-01-01");
+
+    await assert.rejects(cache.get(escaping, tile, async () => png), UnsupportedQueryError);
+    assert.deepEqual(files(root), []);
+  });
+
+  test("purges the tiles whose window overlaps the range", async () => {
+    const cache = new TileCache(directory, 1024);
+    await cache.get(precipitation("2023-01-01", "2023-03-31"), tile, async () => png);
+    await cache.get(precipitation("2023-06-01", "2023-08-31"), tile, async () => png);
+
+    assert.equal(await cache.purge({ from: "2023-05-01" }), 1);
+    assert.equal(cache.getStats().tiles, 1);
+
+    // Files are deleted in the background
+    for (let attempt = 0; attempt < 50 && files(directory).length > 1; attempt++) {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    assert.equal(files(directory).length, 1);
+  });
+
+  test("evicts the least recently served tiles beyond its size", async () => {
+    const cache = new TileCache(directory, png.length * 2);
+    for (const month of ["01", "02", "03"]) {
+      await cache.get(precipitation(`2023-${month}-01`, `2023-${month}-28`), tile, async () => png);
+    }
+    assert.equal(cache.getStats().tiles, 2);
+  });
+});
@@ -0,0 +1,229 @@
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { DEFAULT_INDEX } from "@shared/indices";
+import type { TileCoordinates } from "@shared/schema";
+import { classificationSchemes, schemeVersion } from "./classificationSchemes";
+import { UnsupportedQueryError } from "./errors";
+import type { TileRequest } from "./tiles";
+
+// Rendered tiles are kept on disk under
+//   <dir>/<layer>/<index>/<startDate>_<endDate>/<query hash>/<z>/<x>/<y>.png
+// so a purge can find every tile of a date window from its path alone. The
+// least recently served tiles are evicted once the cache outgrows its limit.
+
+const DEFAULT_MAX_BYTES = 512 * 1024 * 1024;
+
+// Layers without a date window (land cover) and without an index use "-"
+const NONE = "-";
+
+// Path segments taken from the request; the routes validate queries already,
+// but nothing else may ever reach the file system
+const SAFE_SEGMENT = /^[A-Za-z0-9_-]+$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface CacheEntry {
+  file: string;
+  size: number;
+  startDate?: string;
+  endDate?: string;
+}
+
+export interface PurgeOptions {
+  // Drop tiles whose date window overlaps [from, to]; both ends optional
+  from?: string;
+  to?: string;
+  layer?: string;
+}
+
+const hashQuery = (query: Record<string, unknown>) =>
+  crypto
+    .createHash("sha1")
+    .update(JSON.stringify(Object.entries(query).filter(([, value]) => value !== undefined).sort()))
+    .digest("hex")
+    .slice(0, 12);
+
+// Dates a layer's image depends on; change tiles span both of their windows
+const dateWindow = ({ layer, query }: TileRequest): { startDate?: string; endDate?: string } => {
+  if (layer === "change") return { startDate: query.beforeStartDate, endDate: query.endDate };
+  return "startDate" in query ? { startDate: query.startDate, endDate: query.endDate } : {};
+};
+
+export const tileETag = (png: Buffer) =>
+  `"${crypto.createHash("sha1").update(png).digest("hex")}"`;
+
+export class TileCache {
+  // Insertion order doubles as recency order: the first entry is the LRU tile
+  private entries = new Map<string, CacheEntry>();
+  private totalBytes = 0;
+  private loading?: Promise<void>;
+  private pending = new Map<string, Promise<Buffer>>();
+
+  constructor(
+    private readonly directory: string,
+    private readonly maxBytes: number,
+  ) {}
+
+  private keyFor(request: TileRequest, { z, x, y }: TileCoordinates, scheme?: string) {
+    const { layer, query } = request;
+    const index = layer === "precipitation" || layer === "landcover" ? NONE : (query.index ?? DEFAULT_INDEX);
+    const { startDate, endDate } = dateWindow(request);
+    if ([startDate, endDate].some((date) => date !== undefined && !ISO_DATE.test(date))) {
+      throw new UnsupportedQueryError("Tile dates must be YYYY-MM-DD");
+    }
+    const segments = [layer, index, startDate ? `${startDate}_${endDate}` : NONE, hashQuery({ ...query, schemeVersion: scheme })];
+    const coordinates = [z, x, y].map(Number);
+    if (!segments.every((segment) => SAFE_SEGMENT.test(segment)) || !coordinates.every(Number.isSafeInteger)) {
+      throw new UnsupportedQueryError("Invalid tile request");
+    }
+
+    const key = path.join(...segments, String(coordinates[0]), String(coordinates[1]), `${coordinates[2]}.png`);
+    // Belt and braces: the file must end up inside the cache directory
+    const root = path.resolve(this.directory);
+    if (!path.resolve(root, key).startsWith(root + path.sep)) {
+      throw new UnsupportedQueryError("Invalid tile request");
+    }
+    return key;
+  }
+
+  // Rebuild the index from the files left by earlier runs, oldest first
+  private load(): Promise<void> {
+    this.loading ??= (async () => {
+      const found: { key: string; entry: CacheEntry; mtime: number }[] = [];
+
+      const walk = async (dir: string) => {
+        const children = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+        for (const child of children) {
+          const file = path.join(dir, child.name);
+          if (child.isDirectory()) {
+            await walk(file);
+          } else if (child.name.endsWith(".png")) {
+            const stat = await fs.promises.stat(file);
+            const key = path.relative(this.directory, file);
+            const [, , window] = key.split(path.sep);
+            const [startDate, endDate] = window === NONE ? [] : window.split("_");
+            found.push({ key, entry: { file, size: stat.size, startDate, endDate }, mtime: stat.mtimeMs });
+          }
+        }
+      };
+      await walk(this.directory);
+
+      found.sort((a, b) => a.mtime - b.mtime);
+      for (const { key, entry } of found) {
+        this.entries.set(key, entry);
+        this.totalBytes += entry.size;
+      }
+    })();
+    return this.loading;
+  }
+
+  // Serve a tile from disk, or render it once and keep it. Concurrent
+  // requests for the same missing tile share one render.
+  async get(
+    request: TileRequest,
+    tile: TileCoordinates,
+    render: () => Promise<Buffer>,
+  ): Promise<{ png: Buffer; hit: boolean }> {
+    await this.load();
+    // Soil moisture tiles are colored by the scheme's classes, which a custom
+    // scheme may change under the same id
+    const scheme = request.layer === "soil-moisture"
+      ? schemeVersion(await classificationSchemes.resolve(request.query.scheme, request.query.index ?? DEFAULT_INDEX))
+      : undefined;
+    const key = this.keyFor(request, tile, scheme);
+
+    const entry = this.entries.get(key);
+    if (entry) {
+      const png = await fs.promises.readFile(entry.file).catch(() => undefined);
+      if (png) {
+        this.touch(key, entry);
+        return { png, hit: true };
+      }
+      // The file vanished underneath us; render it again
+      this.remove(key, entry);
+    }
+
+    let pending = this.pending.get(key);
+    if (!pending) {
+      pending = render().then(async (png) => {
+        await this.store(key, request, png);
+        return png;
+      });
+      this.pending.set(key, pending);
+      pending.then(
+        () => this.pending.delete(key),
+        () => this.pending.delete(key),
+      );
+    }
+
+    return { png: await pending, hit: false };
+  }
+
+  private touch(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    // Keep recency across restarts; failing to update it is harmless
+    const now = new Date();
+    fs.promises.utimes(entry.file, now, now).catch(() => {});
+  }
+
+  private async store(key: string, request: TileRequest, png: Buffer) {
+    const file = path.join(this.directory, key);
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+
+    // Write then rename so readers never see a partial tile
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(temporary, png);
+    await fs.promises.rename(temporary, file);
+
+    const previous = this.entries.get(key);
+    if (previous) this.remove(key, previous);
+
+    this.entries.set(key, {
+      file,
+      size: png.length,
+      ...dateWindow(request),
+    });
+    this.totalBytes += png.length;
+    this.evict();
+  }
+
+  private remove(key: string, entry: CacheEntry) {
+    this.entries.delete(key);
+    this.totalBytes -= entry.size;
+    fs.promises.unlink(entry.file).catch(() => {});
+  }
+
+  private evict() {
+    while (this.totalBytes > this.maxBytes && this.entries.size > 0) {
+      const [key, entry] = this.entries.entries().next().value as [string, CacheEntry];
+      this.remove(key, entry);
+    }
+  }
+
+  // Remove cached tiles for a layer and/or date window; returns how many
+  async purge({ from, to, layer }: PurgeOptions = {}): Promise<number> {
+    await this.load();
+
+    let removed = 0;
+    for (const [key, entry] of Array.from(this.entries)) {
+      if (layer && key.split(path.sep)[0] !== layer) continue;
+      if ((from || to) && !entry.startDate) continue;
+      if (from && entry.endDate! < from) continue;
+      if (to && entry.startDate! > to) continue;
+
+      this.remove(key, entry);
+      removed++;
+    }
+    return removed;
+  }
+
+  getStats() {
+    return { tiles: this.entries.size, bytes: this.totalBytes, maxBytes: this.maxBytes };
+  }
+}
+
+export const tileCache = new TileCache(
+  path.resolve(process.env.TILE_CACHE_DIR ?? path.join(process.cwd(), ".cache", "tiles")),
+  Number(process.env.TILE_CACHE_MAX_BYTES) || DEFAULT_MAX_BYTES,
+);
@@ -0,0 +1,138 @@
+import {
+  anomalyAnalysisQuerySchema,
+  changeAnalysisQuerySchema,
+  landCoverQuerySchema,
+  precipitationQuerySchema,
+  soilMoistureQuerySchema,
+  trendAnalysisQuerySchema,
+  type AnomalyAnalysisQuery,
+  type ChangeAnalysisQuery,
+  type LandCoverQuery,
+  type PrecipitationQuery,
+  type RegionGeometry,
+  type SoilMoistureQuery,
+  type TileCoordinates,
+  type TileLayer,
+  type TrendAnalysisQuery,
+} from "@shared/schema";
+import { encodePng } from "./png";
+
+export const TILE_SIZE = 256;
+
+// A tile layer together with the query that defines its image
+export type TileRequest =
+  | { layer: "soil-moisture"; query: SoilMoistureQuery }
+  | { layer: "precipitation"; query: PrecipitationQuery }
+  | { layer: "landcover"; query: LandCoverQuery }
+  | { layer: "trend"; query: TrendAnalysisQuery }
+  | { layer: "change"; query: ChangeAnalysisQuery }
+  | { layer: "anomaly"; query: AnomalyAnalysisQuery };
+
+export const parseTileRequest = (layer: TileLayer, query: unknown): TileRequest => {
+  switch (layer) {
+    case "soil-moisture":
+      return { layer, query: soilMoistureQuerySchema.parse(query) };
+    case "precipitation":
+      return { layer, query: precipitationQuerySchema.parse(query) };
+    case "landcover":
+      return { layer, query: landCoverQuerySchema.parse(query) };
+    case "trend":
+      return { layer, query: trendAnalysisQuerySchema.parse(query) };
+    case "change":
+      return { layer, query: changeAnalysisQuerySchema.parse(query) };
+    case "anomaly":
+      return { layer, query: anomalyAnalysisQuerySchema.parse(query) };
+  }
+};
+
+// XYZ URL template served by /api/tiles for a layer and query; values are
+// serialized the way the query schemas parse them back
+export const tileUrlTemplate = ({ layer, query }: TileRequest) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined) params.set(key, String(value));
+  });
+  return `/api/tiles/${layer}/{z}/{x}/{y}.png?${params.toString()}`;
+};
+
+// Fetch one tile from an XYZ template such as an Earth Engine map's urlFormat
+export async function fetchTile(urlFormat: string, { z, x, y }: TileCoordinates): Promise<Buffer> {
+  const url = urlFormat
+    .replace("{z}", String(z))
+    .replace("{x}", String(x))
+    .replace("{y}", String(y));
+
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Tile request failed with ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+export interface ColoredRegion {
+  geometry: RegionGeometry;
+  color: string;
+}
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+};
+
+// Ray casting test against one linear ring of [lon, lat] positions
+const insideRing = (lon: number, lat: number, ring: number[][]) => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+const insidePolygon = (lon: number, lat: number, { coordinates: [outer, ...holes] }: RegionGeometry) =>
+  insideRing(lon, lat, outer) && !holes.some((hole) => insideRing(lon, lat, hole));
+
+// Rasterize colored region polygons into a Web Mercator tile; pixels outside
+// every region stay transparent. Later regions paint over earlier ones.
+export function renderRegionTile(regions: ColoredRegion[], { z, x, y }: TileCoordinates): Buffer {
+  const rgba = new Uint8Array(TILE_SIZE * TILE_SIZE * 4);
+  const tiles = 2 ** z;
+
+  const lons = Array.from({ length: TILE_SIZE }, (_, px) =>
+    ((x + (px + 0.5) / TILE_SIZE) / tiles) * 360 - 180,
+  );
+  const lats = Array.from({ length: TILE_SIZE }, (_, py) => {
+    const n = Math.PI * (1 - (2 * (y + (py + 0.5) / TILE_SIZE)) / tiles);
+    return (Math.atan(Math.sinh(n)) * 180) / Math.PI;
+  });
+
+  for (const { geometry, color } of regions) {
+    const [r, g, b] = hexToRgb(color);
+    const outer = geometry.coordinates[0];
+    const west = Math.min(...outer.map(([lon]) => lon));
+    const east = Math.max(...outer.map(([lon]) => lon));
+    const south = Math.min(...outer.map(([, lat]) => lat));
+    const north = Math.max(...outer.map(([, lat]) => lat));
+
+    for (let py = 0; py < TILE_SIZE; py++) {
+      const lat = lats[py];
+      if (lat < south || lat > north) continue;
+
+      for (let px = 0; px < TILE_SIZE; px++) {
+        const lon = lons[px];
+        if (lon < west || lon > east || !insidePolygon(lon, lat, geometry)) continue;
+
+        const offset = (py * TILE_SIZE + px) * 4;
+        rgba[offset] = r;
+        rgba[offset + 1] = g;
+        rgba[offset + 2] = b;
+        rgba[offset + 3] = 255;
+      }
+    }
+  }
+
+  return encodePng(TILE_SIZE, TILE_SIZE, rgba);
+}
@@ -0,0 +1,59 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import type { TrendPoint } from "@shared/schema";
+import { processTrends } from "./trendProcessing";
+
+const window = { startDate: "2023-01-01", endDate: "2023-05-31", timeStep: "monthly" as const };
+
+const point = (date: string, values: Record<string, number>): TrendPoint => ({ name: date, date, ...values });
+
+describe("processTrends", () => {
+  const trends = [
+    point("2023-01-01", { north: 0, south: 1 }),
+    point("2023-03-01", { north: 2 }),
+    point("2023-04-01", { south: 4 }),
+  ];
+
+  test("returns the series untouched without gap filling or smoothing", () => {
+    assert.equal(processTrends(trends, window), trends);
+  });
+
+  test("fills gaps linearly in time between observations", () => {
+    const filled = processTrends(trends, { ...window, gapFill: "linear" });
+
+    assert.deepEqual(filled.map(({ date }) => date), ["2023-01-01", "2023-02-01", "2023-03-01", "2023-04-01"]);
+    assert.equal(filled[1].north, (2 * 31) / 59);
+    assert.equal(filled[1].south, 1 + (3 * 31) / 90);
+    assert.deepEqual(filled[1].interpolated, ["north", "south"]);
+    assert.deepEqual(filled[2].interpolated, ["south"]);
+  });
+
+  test("never extrapolates past the first or last observation", () => {
+    const filled = processTrends(trends, { ...window, gapFill: "linear" });
+
+    assert.equal(filled[3].north, undefined);
+    assert.equal(filled.some(({ date }) => date === "2023-05-01"), false);
+  });
+
+  test("falls back to linear filling with too few observations for the harmonic", () => {
+    assert.deepEqual(
+      processTrends(trends, { ...window, gapFill: "harmonic" }),
+      processTrends(trends, { ...window, gapFill: "linear" }),
+    );
+  });
+
+  test("smooths with a moving average that shrinks at the ends", () => {
+    const series = [1, 2, 6, 3].map((north, i) => point(`2023-0${i + 1}-01`, { north }));
+    const smoothed = processTrends(series, { ...window, smoothing: "moving-average", smoothingWindow: 3 });
+
+    assert.deepEqual(smoothed.map(({ north }) => north), [1.5, 3, 11 / 3, 4.5]);
+    assert.equal(smoothed.some(({ interpolated }) => interpolated), false);
+  });
+
+  test("keeps a straight line under Savitzky–Golay smoothing", () => {
+    const series = [1, 2, 3, 4, 5].map((north, i) => point(`2023-0${i + 1}-01`, { north }));
+    const smoothed = processTrends(series, { ...window, smoothing: "savitzky-golay", smoothingWindow: 5 });
+
+    smoothed.forEach(({ north }, i) => assert.ok(Math.abs((north as number) - (i + 1)) < 1e-9));
+  });
+});
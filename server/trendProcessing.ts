@@ -0,0 +1,141 @@
+import type { SoilMoistureQuery, TrendPoint } from "@shared/schema";
+import { buildPeriods, formatPeriodName } from "./periods";
+import { leastSquares, mean } from "./statistics";
+
+// Optional gap filling and smoothing of trend series, applied per region
+// after the provider has reported the periods with acquisitions. Gaps are
+// only filled between the first and last observation; filled values are
+// listed in each point's `interpolated`.
+
+const DEFAULT_SMOOTHING_WINDOW = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const YEAR_DAYS = 365.25;
+
+type TrendOptions = Pick<SoilMoistureQuery, "startDate" | "endDate" | "timeStep" | "gapFill" | "smoothing" | "smoothingWindow">;
+
+// Values of one region by period, undefined where nothing was observed
+type Series = (number | undefined)[];
+
+const regionsOf = (trends: TrendPoint[]) =>
+  Array.from(new Set(trends.flatMap((point) =>
+    Object.entries(point).filter(([, value]) => typeof value === "number").map(([region]) => region),
+  )));
+
+const observedRange = (series: Series) => {
+  const first = series.findIndex((value) => value !== undefined);
+  let last = series.length - 1;
+  while (last >= 0 && series[last] === undefined) last--;
+  return { first, last };
+};
+
+function fillLinear(series: Series, days: number[]): Series {
+  const { first, last } = observedRange(series);
+  const filled = [...series];
+  let previous = first;
+
+  for (let i = first + 1; i <= last; i++) {
+    if (series[i] === undefined) continue;
+    for (let gap = previous + 1; gap < i; gap++) {
+      const t = (days[gap] - days[previous]) / (days[i] - days[previous]);
+      filled[gap] = series[previous]! + t * (series[i]! - series[previous]!);
+    }
+    previous = i;
+  }
+  return filled;
+}
+
+// Annual harmonic with a linear trend, y = a + b·t + c·cos(ωt) + d·sin(ωt),
+// fitted to the observations. Falls back to linear filling when there are
+// too few observations to pin down the four terms.
+function fillHarmonic(series: Series, days: number[]): Series {
+  const terms = (day: number) => {
+    const angle = (2 * Math.PI * day) / YEAR_DAYS;
+    return [1, day / YEAR_DAYS, Math.cos(angle), Math.sin(angle)];
+  };
+
+  const observed = series.flatMap((value, i) => (value === undefined ? [] : [i]));
+  const coefficients = observed.length >= 8
+    ? leastSquares(observed.map((i) => terms(days[i])), observed.map((i) => series[i]!))
+    : undefined;
+  if (!coefficients) return fillLinear(series, days);
+
+  const { first, last } = observedRange(series);
+  return series.map((value, i) =>
+    value !== undefined || i < first || i > last
+      ? value
+      : terms(days[i]).reduce((sum, term, j) => sum + term * coefficients[j], 0),
+  );
+}
+
+// Both smoothers work on the defined values in order, shrinking the window
+// at the ends of the series
+function smooth(series: Series, method: "moving-average" | "savitzky-golay", window: number): Series {
+  const positions = series.flatMap((value, i) => (value === undefined ? [] : [i]));
+  const values = positions.map((i) => series[i]!);
+  const half = Math.floor(window / 2);
+  const result = [...series];
+
+  positions.forEach((position, n) => {
+    const from = Math.max(0, n - half);
+    const to = Math.min(values.length - 1, n + half);
+    const neighbours = values.slice(from, to + 1);
+
+    if (method === "moving-average") {
+      result[position] = mean(neighbours);
+      return;
+    }
+
+    // Savitzky–Golay: local quadratic least squares fit evaluated at the point
+    const offsets = neighbours.map((_, k) => from + k - n);
+    const degree = Math.min(2, neighbours.length - 1);
+    const coefficients = leastSquares(
+      offsets.map((x) => Array.from({ length: degree + 1 }, (_, p) => x ** p)),
+      neighbours,
+    );
+    result[position] = coefficients ? coefficients[0] : values[n];
+  });
+
+  return result;
+}
+
+export function processTrends(trends: TrendPoint[], options: TrendOptions): TrendPoint[] {
+  const gapFill = options.gapFill ?? "none";
+  const smoothing = options.smoothing ?? "none";
+  if (trends.length === 0 || (gapFill === "none" && smoothing === "none")) return trends;
+
+  // Filling needs every period of the window, not just those reported
+  const dates = gapFill === "none"
+    ? trends.map(({ date }) => date)
+    : buildPeriods(options.startDate, options.endDate, options.timeStep).map(({ start }) => start);
+  const days = dates.map((date) => Date.parse(date) / DAY_MS);
+  const byDate = new Map(trends.map((point) => [point.date, point]));
+
+  const points: TrendPoint[] = dates.map((date) => ({
+    name: byDate.get(date)?.name ?? formatPeriodName(date),
+    date,
+  }));
+
+  for (const region of regionsOf(trends)) {
+    const observed: Series = dates.map((date) => {
+      const value = byDate.get(date)?.[region];
+      return typeof value === "number" ? value : undefined;
+    });
+
+    let series = observed;
+    if (gapFill === "linear") series = fillLinear(series, days);
+    if (gapFill === "harmonic") series = fillHarmonic(series, days);
+    if (smoothing !== "none") series = smooth(series, smoothing, options.smoothingWindow ?? DEFAULT_SMOOTHING_WINDOW);
+
+    series.forEach((value, i) => {
+      if (value === undefined) return;
+      points[i][region] = value;
+      if (observed[i] === undefined) {
+        points[i].interpolated = [...(points[i].interpolated ?? []), region];
+      }
+    });
+  }
+
+  // Periods that are still empty (before the first or after the last
+  // observation) are left out, as the providers do
+  return points.filter((point) => Object.values(point).some((value) => typeof value === "number"));
+}
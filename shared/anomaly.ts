@@ -0,0 +1,17 @@
+import { moistureIndexInfo, type MoistureIndex } from "./indices";
+
+// Diverging color scale of the anomaly layer and its legend, in standard
+// deviations from the baseline mean, from drier to wetter
+export const ANOMALY_PALETTE = ["#a50026", "#f46d43", "#fee090", "#ffffbf", "#e0f3f8", "#74add1", "#313695"];
+
+export const ANOMALY_RANGE: [number, number] = [-3.5, 3.5];
+
+// Palette color for a z-score, flipped for indices where higher means drier
+// so that wet anomalies are always blue
+export const getAnomalyColor = (zScore: number, index: MoistureIndex) => {
+  const [min, max] = ANOMALY_RANGE;
+  const wetness = moistureIndexInfo[index].wetIsHigh ? zScore : -zScore;
+  const position = (wetness - min) / (max - min);
+  const step = Math.floor(position * ANOMALY_PALETTE.length);
+  return ANOMALY_PALETTE[Math.min(Math.max(step, 0), ANOMALY_PALETTE.length - 1)];
+};
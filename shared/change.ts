@@ -0,0 +1,21 @@
+import { moistureIndexInfo, type MoistureIndex } from "./indices";
+
+// Diverging color scale of the change detection layer and its legend, from
+// drier to wetter in the later window
+export const CHANGE_PALETTE = ["#b2182b", "#ef8a62", "#fddbc7", "#f7f7f7", "#d1e5f0", "#67a9cf", "#2166ac"];
+
+// Differences beyond half of the index's range saturate the color scale
+export const differenceRange = (index: MoistureIndex): [number, number] => {
+  const [min, max] = moistureIndexInfo[index].range;
+  const limit = (max - min) / 2;
+  return [-limit, limit];
+};
+
+// Palette color for a difference (after − before), flipped for indices where
+// higher means drier so that wetting is always blue
+export const getDifferenceColor = (difference: number, index: MoistureIndex, [min, max]: [number, number]) => {
+  const wetting = moistureIndexInfo[index].wetIsHigh ? difference : -difference;
+  const position = (wetting - min) / (max - min);
+  const step = Math.floor(position * CHANGE_PALETTE.length);
+  return CHANGE_PALETTE[Math.min(Math.max(step, 0), CHANGE_PALETTE.length - 1)];
+};
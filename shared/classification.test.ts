@@ -0,0 +1,62 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import { builtInSchemes, classify, classRange, classificationSchemeSchema } from "./classification";
+
+const [usdm, equalInterval] = builtInSchemes;
+const category = (...args: Parameters<typeof classify>) => classify(...args).id;
+
+describe("USDM classification", () => {
+  test("maps percentiles to drought and wetness categories", () => {
+    assert.equal(category(usdm, "NDMI", 1), "D4");
+    assert.equal(category(usdm, "NDMI", 7), "D2");
+    assert.equal(category(usdm, "NDMI", 50), "N");
+    assert.equal(category(usdm, "NDMI", 85), "W1");
+    assert.equal(category(usdm, "NDMI", 99), "W4");
+  });
+
+  test("gives ties to the class farther from normal", () => {
+    assert.equal(category(usdm, "NDMI", 2), "D4");
+    assert.equal(category(usdm, "NDMI", 30), "D0");
+    assert.equal(category(usdm, "NDMI", 70), "W0");
+    assert.equal(category(usdm, "NDMI", 98), "W4");
+  });
+
+  test("flips percentiles of indices where higher is drier", () => {
+    assert.equal(category(usdm, "TVDI", 1), "W4");
+    assert.equal(category(usdm, "TVDI", 99), "D4");
+  });
+
+  test("describes class ranges for the legend", () => {
+    assert.equal(classRange(usdm, "NDMI", 0), "≤2");
+    assert.equal(classRange(usdm, "NDMI", 5), "30–70");
+    assert.equal(classRange(usdm, "NDMI", 10), "≥98");
+  });
+});
+
+describe("value classification", () => {
+  test("counts classes from the wet end for indices where higher is drier", () => {
+    assert.equal(category(equalInterval, "SMI", 0.1), "very-dry");
+    assert.equal(category(equalInterval, "TVDI", 0.1), "very-wet");
+  });
+});
+
+describe("classificationSchemeSchema", () => {
+  const scheme = {
+    id: "two-class",
+    label: "Two classes",
+    basis: "value",
+    classes: [
+      { id: "dry", label: "Dry", color: "#ff0000" },
+      { id: "wet", label: "Wet", color: "#0000ff" },
+    ],
+    breaks: [0.5],
+  };
+
+  test("accepts a consistent scheme", () => {
+    assert.equal(classificationSchemeSchema.safeParse(scheme).success, true);
+  });
+
+  test("rejects a break count that does not match the classes", () => {
+    assert.equal(classificationSchemeSchema.safeParse({ ...scheme, breaks: [0.3, 0.6] }).success, false);
+  });
+});
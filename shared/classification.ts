@@ -0,0 +1,162 @@
+import { z } from "zod";
+import { moistureIndexInfo, moistureIndices, type MoistureIndex } from "./indices";
+
+// Classification schemes turn a regional or per-pixel value into a class with
+// a label and color. The server classifies results and tiles with the scheme
+// selected by the query, and the map, legend and statistics table render the
+// scheme returned with the response, so breaks and colors live only here.
+
+export interface SchemeClass {
+  id: string;
+  label: string;
+  color: string;
+}
+
+export interface ClassificationScheme {
+  id: string;
+  label: string;
+  description: string;
+  // "percentile" ranks the value within its climatology (0–100, flipped so
+  // that higher is always wetter); "value" uses the index value itself
+  basis: "percentile" | "value";
+  // Ordered driest first
+  classes: SchemeClass[];
+  // Ascending boundaries between consecutive classes, one fewer than classes.
+  // For value schemes of indices where higher means drier, the classes are
+  // assigned from the wet end.
+  breaks: number[];
+  // Boundaries for particular indices, replacing `breaks`
+  indexBreaks?: Partial<Record<MoistureIndex, number[]>>;
+  // Indices the scheme applies to; all when omitted
+  indices?: MoistureIndex[];
+  // False for the schemes shipped with the app
+  custom?: boolean;
+}
+
+const hexColor = z.string().regex(/^#[0-9a-fA-F]{6}$/, "Expected a #rrggbb color");
+
+const ascending = (breaks: number[]) => breaks.every((value, i) => i === 0 || value > breaks[i - 1]);
+
+const breaksSchema = z.array(z.number()).refine(ascending, "Breaks must be strictly ascending");
+
+// Admin input for a custom scheme
+export const classificationSchemeSchema = z
+  .object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, "Use lowercase letters, digits and dashes"),
+    label: z.string().min(1),
+    description: z.string().default(""),
+    basis: z.enum(["percentile", "value"]),
+    classes: z
+      .array(z.object({ id: z.string().min(1), label: z.string().min(1), color: hexColor }))
+      .min(2),
+    breaks: breaksSchema,
+    indexBreaks: z.record(z.enum(moistureIndices), breaksSchema).optional(),
+    indices: z.array(z.enum(moistureIndices)).min(1).optional(),
+  })
+  .superRefine((scheme, ctx) => {
+    const expected = scheme.classes.length - 1;
+    const lists: [string, number[]][] = [["breaks", scheme.breaks], ...Object.entries(scheme.indexBreaks ?? {})];
+    for (const [key, breaks] of lists) {
+      if (breaks.length !== expected) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: key === "breaks" ? ["breaks"] : ["indexBreaks", key],
+          message: `Expected ${expected} breaks for ${scheme.classes.length} classes`,
+        });
+      }
+    }
+    if (new Set(scheme.classes.map(({ id }) => id)).size !== scheme.classes.length) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["classes"], message: "Class ids must be unique" });
+    }
+  });
+
+export const appliesTo = (scheme: ClassificationScheme, index: MoistureIndex) =>
+  !scheme.indices || scheme.indices.includes(index);
+
+export const schemeBreaks = (scheme: ClassificationScheme, index: MoistureIndex) =>
+  scheme.indexBreaks?.[index] ?? scheme.breaks;
+
+// Whether the class at the wetter side of a break is chosen for a value that
+// falls exactly on it: ties go to the class farther from the middle one, so a
+// percentile of 2 is D4 and one of 70 is W0
+export const breakIncludedAbove = (breakPosition: number, classCount: number) =>
+  breakPosition + 0.5 > (classCount - 1) / 2;
+
+// Values are compared on a scale where higher is wetter: percentiles are
+// flipped for indices like TVDI, and value classes counted from the wet end
+export const classify = (scheme: ClassificationScheme, index: MoistureIndex, value: number): SchemeClass => {
+  const { wetIsHigh } = moistureIndexInfo[index];
+  const breaks = schemeBreaks(scheme, index);
+  const count = scheme.classes.length;
+  const scaled = scheme.basis === "percentile" && !wetIsHigh ? 100 - value : value;
+
+  let position = 0;
+  breaks.forEach((bound, i) => {
+    if (scaled > bound || (scaled === bound && breakIncludedAbove(i, count))) position++;
+  });
+
+  const reversed = scheme.basis === "value" && !wetIsHigh;
+  return scheme.classes[reversed ? count - 1 - position : position];
+};
+
+// Range of a class for legends, in the units of the scheme's basis
+export const classRange = (scheme: ClassificationScheme, index: MoistureIndex, position: number) => {
+  const breaks = schemeBreaks(scheme, index);
+  const reversed = scheme.basis === "value" && !moistureIndexInfo[index].wetIsHigh;
+  const i = reversed ? scheme.classes.length - 1 - position : position;
+  const format = (value: number) => Number(value.toPrecision(3)).toString();
+
+  if (i === 0) return `≤${format(breaks[0])}`;
+  if (i === breaks.length) return `≥${format(breaks[breaks.length - 1])}`;
+  return `${format(breaks[i - 1])}–${format(breaks[i])}`;
+};
+
+// US Drought Monitor-style categories from the value's percentile within its
+// climatology, mirrored for wet conditions
+const usdmScheme: ClassificationScheme = {
+  id: "usdm",
+  label: "Drought Monitor percentiles",
+  description: "D0–D4 drought and W0–W4 wetness categories from the percentile within the climatology",
+  basis: "percentile",
+  classes: [
+    { id: "D4", label: "Exceptional Drought", color: "#730000" },
+    { id: "D3", label: "Extreme Drought", color: "#e60000" },
+    { id: "D2", label: "Severe Drought", color: "#ffaa00" },
+    { id: "D1", label: "Moderate Drought", color: "#fcd37f" },
+    { id: "D0", label: "Abnormally Dry", color: "#ffff00" },
+    { id: "N", label: "Normal", color: "#e5e5e5" },
+    { id: "W0", label: "Abnormally Wet", color: "#c6e2ff" },
+    { id: "W1", label: "Moderately Wet", color: "#87c3f0" },
+    { id: "W2", label: "Severely Wet", color: "#4a90d9" },
+    { id: "W3", label: "Extremely Wet", color: "#1f5fbf" },
+    { id: "W4", label: "Exceptionally Wet", color: "#0b2f7a" },
+  ],
+  breaks: [2, 5, 10, 20, 30, 70, 80, 90, 95, 98],
+};
+
+// Five equal-width classes across each index's typical range
+const equalIntervalBreaks = (index: MoistureIndex) => {
+  const [min, max] = moistureIndexInfo[index].range;
+  const step = (max - min) / 5;
+  return [1, 2, 3, 4].map((i) => Number((min + i * step).toFixed(6)));
+};
+
+const equalIntervalScheme: ClassificationScheme = {
+  id: "equal-interval",
+  label: "Equal intervals",
+  description: "Five equal-width classes across the index's typical range, regardless of climatology",
+  basis: "value",
+  classes: [
+    { id: "very-dry", label: "Very Dry", color: "#ff0000" },
+    { id: "dry", label: "Dry", color: "#ff5733" },
+    { id: "normal", label: "Normal", color: "#edd832" },
+    { id: "wet", label: "Wet", color: "#3bb543" },
+    { id: "very-wet", label: "Very Wet", color: "#2b83ff" },
+  ],
+  breaks: equalIntervalBreaks("NDMI"),
+  indexBreaks: Object.fromEntries(moistureIndices.map((index) => [index, equalIntervalBreaks(index)])),
+};
+
+export const builtInSchemes: ClassificationScheme[] = [usdmScheme, equalIntervalScheme];
+
+export const DEFAULT_SCHEME = usdmScheme.id;
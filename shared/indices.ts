@@ -0,0 +1,72 @@
+// Moisture indices the API can compute, with the metadata the client needs
+// to label values and scale legends
+
+export const moistureIndices = ["NDMI", "SMI", "TVDI", "NMDI", "OPTRAM", "SAR", "SMAP"] as const;
+
+export type MoistureIndex = (typeof moistureIndices)[number];
+
+export const DEFAULT_INDEX: MoistureIndex = "NDMI";
+
+export interface MoistureIndexInfo {
+  id: MoistureIndex;
+  label: string;
+  description: string;
+  // Typical value range over land, used for legends and chart axes
+  range: [number, number];
+  // False when larger values mean drier conditions (e.g. TVDI)
+  wetIsHigh: boolean;
+  units?: string;
+}
+
+export const moistureIndexInfo: Record<MoistureIndex, MoistureIndexInfo> = {
+  NDMI: {
+    id: "NDMI",
+    label: "Normalized Difference Moisture Index",
+    description: "NIR/SWIR1 contrast sensitive to vegetation and surface water content",
+    range: [-0.2, 0.6],
+    wetIsHigh: true,
+  },
+  SMI: {
+    id: "SMI",
+    label: "Soil Moisture Index",
+    description: "Position between the fitted dry and wet edges of the NDVI–LST triangle",
+    range: [0, 1],
+    wetIsHigh: true,
+  },
+  TVDI: {
+    id: "TVDI",
+    label: "Temperature Vegetation Dryness Index",
+    description: "Dryness from the NDVI–LST triangle; 0 on the wet edge, 1 on the dry edge",
+    range: [0, 1],
+    wetIsHigh: false,
+  },
+  NMDI: {
+    id: "NMDI",
+    label: "Normalized Multi-band Drought Index",
+    description: "NIR against the SWIR1–SWIR2 difference, responsive to soil and canopy water",
+    range: [0.3, 0.9],
+    wetIsHigh: true,
+  },
+  OPTRAM: {
+    id: "OPTRAM",
+    label: "Optical Trapezoid Model",
+    description: "Relative moisture from the NDVI–SWIR transformed reflectance trapezoid",
+    range: [0, 1],
+    wetIsHigh: true,
+  },
+  SAR: {
+    id: "SAR",
+    label: "Sentinel-1 Relative Surface Soil Moisture",
+    description: "VV backscatter change between dry and wet references; works under cloud cover",
+    range: [0, 1],
+    wetIsHigh: true,
+  },
+  SMAP: {
+    id: "SMAP",
+    label: "SMAP Volumetric Soil Moisture",
+    description: "NASA SMAP surface soil moisture product (~9 km), a physically-based reference",
+    range: [0, 0.5],
+    wetIsHigh: true,
+    units: "m³/m³",
+  },
+};
@@ -0,0 +1,46 @@
+// ESA WorldCover 10 m classes, with the colors of the product's own legend
+
+export const landCoverCodes = [10, 20, 30, 40, 50, 60, 70, 80, 90, 95, 100] as const;
+
+export type LandCoverCode = (typeof landCoverCodes)[number];
+
+export interface LandCoverClass {
+  code: LandCoverCode;
+  label: string;
+  color: string;
+}
+
+export const landCoverClasses: Record<LandCoverCode, LandCoverClass> = {
+  10: { code: 10, label: "Tree cover", color: "#006400" },
+  20: { code: 20, label: "Shrubland", color: "#ffbb22" },
+  30: { code: 30, label: "Grassland", color: "#ffff4c" },
+  40: { code: 40, label: "Cropland", color: "#f096ff" },
+  50: { code: 50, label: "Built-up", color: "#fa0000" },
+  60: { code: 60, label: "Bare / sparse vegetation", color: "#b4b4b4" },
+  70: { code: 70, label: "Snow and ice", color: "#f0f0f0" },
+  80: { code: 80, label: "Permanent water bodies", color: "#0064c8" },
+  90: { code: 90, label: "Herbaceous wetland", color: "#0096a0" },
+  95: { code: 95, label: "Mangroves", color: "#00cf75" },
+  100: { code: 100, label: "Moss and lichen", color: "#fae6a0" },
+};
+
+export const isLandCoverCode = (code: number): code is LandCoverCode =>
+  (landCoverCodes as readonly number[]).includes(code);
+
+// Class shares and the dominant class from per-class pixel counts, keyed by
+// code as Earth Engine's frequency histogram returns them
+export const landCoverFractions = (counts: Record<string, number>) => {
+  const entries = Object.entries(counts)
+    .map(([code, count]) => [Number(code), count] as const)
+    .filter(([code]) => isLandCoverCode(code)) as [LandCoverCode, number][];
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  const fractions: Partial<Record<LandCoverCode, number>> = {};
+  let dominant: LandCoverCode = landCoverCodes[0];
+  for (const [code, count] of entries) {
+    fractions[code] = total > 0 ? count / total : 0;
+    if (count > (counts[dominant] ?? 0)) dominant = code;
+  }
+
+  return { fractions, dominant };
+};
@@ -0,0 +1,39 @@
+import { z } from "zod";
+import type { MoistureIndex } from "./indices";
+import type { AnalysisJob } from "./schema";
+
+// Live updates are pushed over a WebSocket at LIVE_UPDATES_PATH. Clients
+// subscribe to topics and receive the messages published to them: every
+// state change of a job, and new imagery seen for a region.
+
+export const LIVE_UPDATES_PATH = "/api/live";
+
+export const jobTopic = (id: string) => `job:${id}`;
+
+export const regionTopic = (region: string) => `region:${region}`;
+
+export const liveClientMessageSchema = z.object({
+  type: z.enum(["subscribe", "unsubscribe"]),
+  topics: z.array(z.string().min(1)).max(100),
+});
+
+export type LiveClientMessage = z.infer<typeof liveClientMessageSchema>;
+
+export type LiveMessage =
+  | { type: "job"; job: AnalysisJob }
+  // The provider has a later acquisition of the index over the region than
+  // at the previous availability check; `date` is that acquisition's date
+  | { type: "data"; region: string; index: MoistureIndex; date: string }
+  | { type: "error"; message: string };
+
+// Topic a message was published to; errors go only to the client that caused them
+export const topicOf = (message: LiveMessage): string | undefined => {
+  switch (message.type) {
+    case "job":
+      return jobTopic(message.job.id);
+    case "data":
+      return regionTopic(message.region);
+    default:
+      return undefined;
+  }
+};
@@ -0,0 +1,28 @@
+// Color scale shared by the precipitation map layer and its legend
+
+export const PRECIPITATION_PALETTE = ["#f7fbff", "#c6dbef", "#6baed6", "#2171b5", "#08306b"];
+
+// A persistently wet climate averages about this much rain per day (mm); the
+// color scale tops out at this rate sustained over the whole window
+const WET_RATE_MM_PER_DAY = 4;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+export function precipitationRange(startDate: string, endDate: string): [number, number] {
+  const days = Math.max(
+    1,
+    Math.round((Date.parse(endDate) - Date.parse(startDate)) / MS_PER_DAY) + 1
+  );
+  const max = days * WET_RATE_MM_PER_DAY;
+
+  // Round to a readable legend value
+  const magnitude = Math.pow(10, Math.floor(Math.log10(max)));
+  return [0, Math.ceil(max / magnitude) * magnitude];
+}
+
+// Palette color for a precipitation total within the color scale's range
+export const getPrecipitationColor = (total: number, [min, max]: [number, number]) => {
+  const position = (total - min) / (max - min);
+  const step = Math.floor(position * PRECIPITATION_PALETTE.length);
+  return PRECIPITATION_PALETTE[Math.min(Math.max(step, 0), PRECIPITATION_PALETTE.length - 1)];
+};
@@ -0,0 +1,30 @@
+// Confidence in a regional result from how much imagery went into it, shared
+// by both providers so the table and map flag results the same way
+
+export const confidenceLevels = ["high", "medium", "low"] as const;
+
+export type Confidence = (typeof confidenceLevels)[number];
+
+// Below these a result is flagged as low confidence...
+const MIN_SCENES = 2;
+const MIN_VALID_FRACTION = 0.3;
+// ...and from these up it is high confidence
+const GOOD_SCENES = 4;
+const GOOD_VALID_FRACTION = 0.7;
+
+export function assessConfidence({ scenes, validFraction }: { scenes: number; validFraction: number }): {
+  confidence: Confidence;
+  issues: string[];
+} {
+  const issues: string[] = [];
+  if (scenes < MIN_SCENES) {
+    issues.push(scenes === 0 ? "No scenes" : `Only ${scenes} scene`);
+  }
+  if (validFraction < MIN_VALID_FRACTION) {
+    issues.push(`${Math.round(validFraction * 100)}% valid pixels`);
+  }
+
+  if (issues.length > 0) return { confidence: "low", issues };
+  if (scenes >= GOOD_SCENES && validFraction >= GOOD_VALID_FRACTION) return { confidence: "high", issues };
+  return { confidence: "medium", issues };
+}
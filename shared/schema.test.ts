@@ -0,0 +1,68 @@
+import { describe, test } from "node:test";
+import assert from "node:assert/strict";
+import {
+  analysisRequestSchema,
+  changeAnalysisQuerySchema,
+  soilMoistureQuerySchema,
+  tileCoordinatesSchema,
+} from "./schema";
+
+const query = { startDate: "2023-01-01", endDate: "2023-03-31", timeStep: "monthly" };
+
+describe("soilMoistureQuerySchema", () => {
+  test("accepts a window in order", () => {
+    assert.equal(soilMoistureQuerySchema.safeParse(query).success, true);
+    assert.equal(soilMoistureQuerySchema.safeParse({ ...query, endDate: query.startDate }).success, true);
+  });
+
+  test("rejects dates that are not YYYY-MM-DD", () => {
+    for (const startDate of ["foo", "2023-1-01", "2023-01-01T00:00:00Z", "../../tmp/x"]) {
+      assert.equal(soilMoistureQuerySchema.safeParse({ ...query, startDate }).success, false, startDate);
+    }
+  });
+
+  test("rejects impossible calendar dates", () => {
+    assert.equal(soilMoistureQuerySchema.safeParse({ ...query, endDate: "2023-02-30" }).success, false);
+    assert.equal(soilMoistureQuerySchema.safeParse({ ...query, endDate: "2023-13-01" }).success, false);
+  });
+
+  test("rejects a window that ends before it starts", () => {
+    const result = soilMoistureQuerySchema.safeParse({ ...query, startDate: "2023-04-01" });
+    assert.equal(result.success, false);
+    assert.deepEqual(result.error?.issues.map(({ path }) => path), [["startDate"]]);
+  });
+});
+
+describe("changeAnalysisQuerySchema", () => {
+  test("checks the before window too", () => {
+    const before = { beforeStartDate: "2022-01-01", beforeEndDate: "2022-03-31" };
+    assert.equal(changeAnalysisQuerySchema.safeParse({ ...query, ...before }).success, true);
+    const reversed = changeAnalysisQuerySchema.safeParse({ ...query, ...before, beforeStartDate: "2022-06-01" });
+    assert.deepEqual(reversed.error?.issues.map(({ path }) => path), [["beforeStartDate"]]);
+  });
+});
+
+describe("analysisRequestSchema", () => {
+  test("checks the window of every analysis type", () => {
+    assert.equal(analysisRequestSchema.safeParse({ type: "trend", ...query }).success, true);
+    assert.equal(analysisRequestSchema.safeParse({ type: "trend", ...query, endDate: "2022-12-31" }).success, false);
+  });
+});
+
+describe("tileCoordinatesSchema", () => {
+  test("accepts the tiles of a zoom level", () => {
+    assert.equal(tileCoordinatesSchema.safeParse({ z: "0", x: "0", y: "0" }).success, true);
+    assert.equal(tileCoordinatesSchema.safeParse({ z: "3", x: "7", y: "7" }).success, true);
+  });
+
+  test("rejects columns and rows past the edge of the map", () => {
+    assert.deepEqual(
+      tileCoordinatesSchema.safeParse({ z: "0", x: "1", y: "0" }).error?.issues.map(({ path }) => path),
+      [["x"]],
+    );
+    assert.deepEqual(
+      tileCoordinatesSchema.safeParse({ z: "3", x: "8", y: "8" }).error?.issues.map(({ path }) => path),
+      [["x"], ["y"]],
+    );
+  });
+});
@@ -1,6 +1,11 @@
 import { pgTable, text, serial, integer, boolean, jsonb, timestamp, doublePrecision } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { ClassificationScheme } from "./classification";
+import { moistureIndices, type MoistureIndex } from "./indices";
+import { isLandCoverCode, type LandCoverCode } from "./landCover";
+import type { Confidence } from "./quality";
+import { gapFillMethods, smoothingMethods } from "./trends";
 
 // User schema for authentication if needed
 export const users = pgTable("users", {
@@ -29,6 +34,22 @@ export const insertSoilMoistureSchema = createInsertSchema(soilMoistureData).omi
   id: true
 });
 
+// Computed soil moisture responses, cached by a hash of the normalized query.
+// Rows without an expiry hold closed historical windows and are kept until
+// purged.
+export const cachedResults = pgTable("result_cache", {
+  id: serial("id").primaryKey(),
+  queryHash: text("query_hash").notNull().unique(),
+  query: jsonb("query").notNull(),
+  // Id of the requested region, null for the whole map
+  region: text("region"),
+  startDate: timestamp("start_date").notNull(),
+  endDate: timestamp("end_date").notNull(),
+  response: jsonb("response").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at")
+});
+
 // Regions schema
 export const regions = pgTable("regions", {
   id: serial("id").primaryKey(),
@@ -51,11 +72,474 @@ export type InsertRegion = z.infer<typeof insertRegionSchema>;
 export type Region = typeof regions.$inferSelect;
 
 // Request schemas for API endpoints
-export const soilMoistureQuerySchema = z.object({
-  startDate: z.string(),
-  endDate: z.string(),
+
+// Boolean flags arrive as "true"/"false" query string values, or as booleans
+// in JSON bodies
+const booleanParam = z.union([
+  z.boolean(),
+  z.enum(["true", "false"]).transform((value) => value === "true")
+]);
+
+// Land cover classes arrive as comma-separated WorldCover codes, e.g. "30,40",
+// or as an array of codes in JSON bodies
+const landCoverParam = z
+  .union([
+    z.array(z.number()),
+    z.string().transform((value) => value.split(",").filter(Boolean).map(Number))
+  ])
+  .refine((codes) => codes.length > 0 && codes.every(isLandCoverCode), {
+    message: "Expected comma-separated ESA WorldCover class codes",
+  })
+  .transform((codes) => codes as LandCoverCode[]);
+
+// Calendar dates as YYYY-MM-DD; anything else would reach Earth Engine and
+// cache paths as is
+const isoDate = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date")
+  .refine((value) => {
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+  }, "Expected a valid calendar date");
+
+// Every window of a query must start no later than it ends
+const windowsInOrder = (
+  query: { startDate?: string; endDate?: string; beforeStartDate?: string; beforeEndDate?: string },
+  ctx: z.RefinementCtx
+) => {
+  const windows: [keyof typeof query, keyof typeof query][] = [
+    ["startDate", "endDate"],
+    ["beforeStartDate", "beforeEndDate"]
+  ];
+  for (const [start, end] of windows) {
+    const from = query[start];
+    const to = query[end];
+    if (from && to && from > to) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [start], message: `Expected ${start} on or before ${end}` });
+    }
+  }
+};
+
+// The query objects, before the window check is added to the exported
+// schemas, so they can still be extended and picked from
+const soilMoistureQueryObject = z.object({
+  startDate: isoDate,
+  endDate: isoDate,
   timeStep: z.enum(["daily", "weekly", "monthly"]),
-  region: z.string().optional()
+  region: z.string().optional(),
+  index: z.enum(moistureIndices).optional(),
+  // Second index whose results are returned alongside for comparison
+  reference: z.enum(moistureIndices).optional(),
+  // Landsat QA masking; every mask is on unless explicitly disabled
+  maskCloud: booleanParam.optional(),
+  maskShadow: booleanParam.optional(),
+  maskCirrus: booleanParam.optional(),
+  maskSnow: booleanParam.optional(),
+  maskSaturated: booleanParam.optional(),
+  // Only pixels of these land cover classes count towards the statistics
+  landCover: landCoverParam.optional(),
+  // Climatology reference years (inclusive), 2013–2022 unless configured
+  baselineStart: z.coerce.number().int().min(1980).max(2100).optional(),
+  baselineEnd: z.coerce.number().int().min(1980).max(2100).optional(),
+  // Classification scheme id, "usdm" unless given
+  scheme: z.string().optional(),
+  // Fill periods without acquisitions and/or smooth the trend series; the
+  // window is the number of trend points smoothed over
+  gapFill: z.enum(gapFillMethods).optional(),
+  smoothing: z.enum(smoothingMethods).optional(),
+  smoothingWindow: z.coerce.number().int().min(3).max(15)
+    .refine((size) => size % 2 === 1, { message: "Expected an odd window" })
+    .optional()
 });
 
+export const soilMoistureQuerySchema = soilMoistureQueryObject.superRefine(windowsInOrder);
+
 export type SoilMoistureQuery = z.infer<typeof soilMoistureQuerySchema>;
+
+export const precipitationQuerySchema = soilMoistureQueryObject.pick({
+  startDate: true,
+  endDate: true,
+  timeStep: true,
+  region: true
+}).superRefine(windowsInOrder);
+
+export type PrecipitationQuery = z.infer<typeof precipitationQuerySchema>;
+
+export const landCoverQuerySchema = soilMoistureQueryObject.pick({
+  region: true
+});
+
+export type LandCoverQuery = z.infer<typeof landCoverQuerySchema>;
+
+// Listing classification schemes, optionally only those usable with an index
+export const classificationSchemeQuerySchema = soilMoistureQueryObject.pick({
+  index: true
+});
+
+// Mann–Kendall trend test and Sen's slope over the query's window
+const trendAnalysisQueryObject = soilMoistureQueryObject.extend({
+  // Significance level of the test, 0.05 unless given
+  alpha: z.coerce.number().gt(0).max(0.2).optional(),
+  // Also return a tile layer with the slope of every pixel
+  perPixel: booleanParam.optional()
+});
+
+export const trendAnalysisQuerySchema = trendAnalysisQueryObject.superRefine(windowsInOrder);
+
+export type TrendAnalysisQuery = z.infer<typeof trendAnalysisQuerySchema>;
+
+// Change between an earlier window and the query's window, per region and
+// per pixel
+const changeAnalysisQueryObject = soilMoistureQueryObject.extend({
+  // The earlier window compared against startDate–endDate
+  beforeStartDate: isoDate,
+  beforeEndDate: isoDate,
+  // Significance level of the difference, 0.05 unless given
+  alpha: z.coerce.number().gt(0).max(0.2).optional(),
+  // Also return a tile layer with the difference of every pixel
+  perPixel: booleanParam.optional()
+});
+
+export const changeAnalysisQuerySchema = changeAnalysisQueryObject.superRefine(windowsInOrder);
+
+export type ChangeAnalysisQuery = z.infer<typeof changeAnalysisQuerySchema>;
+
+// Periods and pixels beyond a number of standard deviations from the
+// climatology of the same calendar window
+const anomalyAnalysisQueryObject = soilMoistureQueryObject.extend({
+  // Standard deviations from the baseline mean, 2 unless given
+  threshold: z.coerce.number().gt(0).max(5).optional(),
+  // Also return a tile layer with the anomaly of every pixel
+  perPixel: booleanParam.optional()
+});
+
+export const anomalyAnalysisQuerySchema = anomalyAnalysisQueryObject.superRefine(windowsInOrder);
+
+export type AnomalyAnalysisQuery = z.infer<typeof anomalyAnalysisQuerySchema>;
+
+// Body of POST /api/analysis: the query of one analysis type, tagged with
+// the type
+export const analysisRequestSchema = z.discriminatedUnion("type", [
+  soilMoistureQueryObject.extend({ type: z.literal("average") }),
+  changeAnalysisQueryObject.extend({ type: z.literal("change") }),
+  anomalyAnalysisQueryObject.extend({ type: z.literal("anomaly") }),
+  trendAnalysisQueryObject.extend({ type: z.literal("trend") })
+]).superRefine(windowsInOrder);
+
+export type AnalysisRequest = z.infer<typeof analysisRequestSchema>;
+
+export type AnalysisType = AnalysisRequest["type"];
+
+// Map layers served as XYZ raster tiles from /api/tiles/:layer/{z}/{x}/{y}.png
+export const tileLayers = ["soil-moisture", "precipitation", "landcover", "trend", "change", "anomaly"] as const;
+
+export type TileLayer = (typeof tileLayers)[number];
+
+// A zoom level z has 2^z columns and rows of tiles
+export const tileCoordinatesSchema = z.object({
+  z: z.coerce.number().int().min(0).max(22),
+  x: z.coerce.number().int().min(0),
+  y: z.coerce.number().int().min(0)
+}).superRefine((tile, ctx) => {
+  for (const axis of ["x", "y"] as const) {
+    if (tile[axis] >= 2 ** tile.z) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `Expected a tile within zoom level ${tile.z}`,
+        path: [axis]
+      });
+    }
+  }
+});
+
+export type TileCoordinates = z.infer<typeof tileCoordinatesSchema>;
+
+// Admin purge of cached tiles: tiles whose date window overlaps [from, to]
+export const tileCachePurgeSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  layer: z.enum(tileLayers).optional()
+});
+
+export const resultCachePurgeSchema = z.object({
+  from: isoDate.optional(),
+  to: isoDate.optional(),
+  region: z.string().optional()
+});
+
+// Response types for the soil moisture API
+export interface RegionGeometry {
+  type: "Polygon";
+  coordinates: number[][][];
+}
+
+export interface RegionInfo {
+  id: string;
+  name: string;
+}
+
+export interface RegionFeature {
+  type: "Feature";
+  properties: { id: string; name: string };
+  geometry: RegionGeometry;
+}
+
+// Linear LST edge of the NDVI–LST triangle: LST = intercept + slope * NDVI
+export interface EdgeCoefficients {
+  intercept: number;
+  slope: number;
+  r2: number;
+}
+
+export interface DryWetEdges {
+  dry: EdgeCoefficients;
+  wet: EdgeCoefficients;
+  // Number of NDVI bins that contributed to the fit
+  bins: number;
+}
+
+// The value compared with the same calendar window in each baseline year
+export interface ClimatologyStats {
+  mean: number;
+  stdDev: number;
+  // Standardized anomaly: (value - mean) / stdDev
+  zScore: number;
+  // Share of baseline years with a lower value, in percent
+  percentile: number;
+  // Baseline years with observations
+  years: number;
+}
+
+export interface DataQuality {
+  // Source scenes over the region within the window
+  scenes: number;
+  // Distinct acquisition days of those scenes (YYYY-MM-DD)
+  acquisitionDates: string[];
+  // Pixels with at least one valid observation, and their share of the region
+  validPixels?: number;
+  validFraction: number;
+  // Spatial standard deviation of the index within the region
+  stdDev?: number;
+  confidence: Confidence;
+  // Why confidence is low, e.g. "Only 1 scene"
+  issues: string[];
+}
+
+export interface SoilMoistureResult {
+  region: string;
+  // Null when the window has no observations of the region
+  value: number | null;
+  // Climatological mean of the same calendar window over the baseline years
+  average: number;
+  // Class label in the query's classification scheme, or why there is none
+  status: string;
+  // Class id in that scheme
+  category?: string;
+  date: string;
+  geometry: RegionGeometry;
+  // Fraction of observations removed by cloud/shadow/snow/saturation masking
+  maskedFraction?: number;
+  // Fitted edges for the triangle/trapezoid indices (SMI, TVDI, OPTRAM)
+  edges?: DryWetEdges;
+  // Missing when too few baseline years have observations
+  climatology?: ClimatologyStats;
+  quality?: DataQuality;
+}
+
+export interface TrendPoint {
+  name: string;
+  date: string;
+  // Regions whose value here was gap-filled rather than observed
+  interpolated?: string[];
+  [region: string]: string | number | string[] | undefined;
+}
+
+export interface SoilMoistureReference {
+  index: MoistureIndex;
+  data: SoilMoistureResult[];
+  trends: TrendPoint[];
+}
+
+export interface SoilMoistureResponse {
+  index: MoistureIndex;
+  data: SoilMoistureResult[];
+  regions: RegionFeature[];
+  trends: TrendPoint[];
+  // Climatology reference years and the trend values as z-scores against them
+  baseline: { startYear: number; endYear: number };
+  anomalies: TrendPoint[];
+  reference?: SoilMoistureReference;
+  // Scheme the results and tiles are classified with, for legends
+  classification?: ClassificationScheme;
+  // XYZ template for the per-pixel index raster
+  tileUrl?: string;
+}
+
+// Accumulated precipitation (mm) per region over the requested window
+export interface PrecipitationResult {
+  region: string;
+  total: number;
+  geometry: RegionGeometry;
+}
+
+export interface PrecipitationResponse {
+  data: PrecipitationResult[];
+  // Accumulation per time step, keyed by region name
+  trends: TrendPoint[];
+  // Color scale bounds (mm) shared by the map layer and legend
+  range: [number, number];
+  // XYZ template for the accumulation raster
+  tileUrl?: string;
+}
+
+export interface LandCoverResult {
+  region: string;
+  geometry: RegionGeometry;
+  // Share of the region's area per WorldCover class code
+  fractions: Partial<Record<LandCoverCode, number>>;
+  dominant: LandCoverCode;
+}
+
+export interface LandCoverResponse {
+  data: LandCoverResult[];
+  // XYZ template for the class raster
+  tileUrl?: string;
+}
+
+export interface RegionTrend {
+  region: string;
+  geometry: RegionGeometry;
+  // Observed periods in the series
+  n: number;
+  // Sen's slope in index units per year, and the line's value at startDate
+  slope: number;
+  intercept: number;
+  // Mann–Kendall statistics
+  tau: number;
+  z: number;
+  pValue: number;
+  significant: boolean;
+  // Significant trends towards wetter or drier conditions
+  direction: "wetting" | "drying" | "none";
+}
+
+export interface TrendAnalysisResponse {
+  index: MoistureIndex;
+  startDate: string;
+  endDate: string;
+  alpha: number;
+  regions: RegionTrend[];
+  // Color scale bounds (index units per year) of the slope layer and legend
+  slopeRange: [number, number];
+  // XYZ template for the per-pixel slope raster, when requested
+  tileUrl?: string;
+}
+
+// Area (km²) of a region and of its pixels with significant change
+export interface ChangeArea {
+  region: string;
+  total: number;
+  wetting: number;
+  drying: number;
+}
+
+export interface RegionChange {
+  region: string;
+  geometry: RegionGeometry;
+  // Index value of each window and after − before
+  before: number;
+  after: number;
+  difference: number;
+  // Observed periods in each window
+  nBefore: number;
+  nAfter: number;
+  // Welch's statistic of the periods' values
+  t: number;
+  pValue: number;
+  significant: boolean;
+  direction: "wetting" | "drying" | "none";
+  area: ChangeArea;
+}
+
+export interface ChangeAnalysisResponse {
+  index: MoistureIndex;
+  before: { startDate: string; endDate: string };
+  after: { startDate: string; endDate: string };
+  alpha: number;
+  regions: RegionChange[];
+  // Summed over the regions
+  area: Omit<ChangeArea, "region">;
+  // Color scale bounds (index units) of the difference layer and legend
+  differenceRange: [number, number];
+  // XYZ template for the per-pixel difference raster, when requested
+  tileUrl?: string;
+}
+
+// Consecutive periods beyond the threshold on the same side of the baseline
+export interface AnomalyEvent {
+  type: "wet" | "dry";
+  // First day of the first period and last day of the last
+  startDate: string;
+  endDate: string;
+  periods: number;
+  // Start of the period deviating most, its z-score and index value
+  peakDate: string;
+  peakZScore: number;
+  peakValue: number;
+}
+
+export interface RegionAnomaly {
+  region: string;
+  geometry: RegionGeometry;
+  // Standardized anomaly of the whole window; missing without enough
+  // baseline years
+  zScore?: number;
+  // Whether the whole window is beyond the threshold
+  direction: "wet" | "dry" | "none";
+  events: AnomalyEvent[];
+}
+
+export interface AnomalyAnalysisResponse {
+  index: MoistureIndex;
+  startDate: string;
+  endDate: string;
+  threshold: number;
+  baseline: { startYear: number; endYear: number };
+  regions: RegionAnomaly[];
+  // XYZ template for the per-pixel z-score raster, when requested
+  tileUrl?: string;
+}
+
+// Result of each analysis type; "average" is the soil moisture response of
+// the query, with the regional means over its window
+export type AnalysisResult =
+  | { type: "average"; result: SoilMoistureResponse }
+  | { type: "change"; result: ChangeAnalysisResponse }
+  | { type: "anomaly"; result: AnomalyAnalysisResponse }
+  | { type: "trend"; result: TrendAnalysisResponse };
+
+// Response of POST /api/analysis. The version is raised whenever the shape of
+// a result changes, so stored envelopes can be told apart.
+export type AnalysisEnvelope = AnalysisResult & {
+  version: 1;
+  request: AnalysisRequest;
+  completedAt: string;
+};
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+// An analysis run in the background by POST /api/jobs
+export interface AnalysisJob {
+  id: string;
+  status: JobStatus;
+  // Percent of the provider's work done
+  progress: number;
+  request: AnalysisRequest;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  // The periods analysed so far, while the job runs or after it was cancelled
+  partial?: AnalysisEnvelope;
+  result?: AnalysisEnvelope;
+  error?: string;
+}
@@ -0,0 +1,39 @@
+import { moistureIndexInfo, type MoistureIndex } from "./indices";
+
+// Optional processing of the trend series; gap-filled points are flagged in
+// each point's `interpolated`
+
+export const gapFillMethods = ["none", "linear", "harmonic"] as const;
+
+export type GapFillMethod = (typeof gapFillMethods)[number];
+
+export const smoothingMethods = ["none", "moving-average", "savitzky-golay"] as const;
+
+export type SmoothingMethod = (typeof smoothingMethods)[number];
+
+// Diverging color scale of the trend slope layer and its legend, from drying
+// to wetting
+export const SLOPE_PALETTE = ["#8c510a", "#d8b365", "#f6e8c3", "#f5f5f5", "#c7eae5", "#5ab4ac", "#01665e"];
+
+// Slopes (index units per year) beyond a quarter of the index's range per
+// year saturate the color scale
+export const slopeRange = (index: MoistureIndex): [number, number] => {
+  const [min, max] = moistureIndexInfo[index].range;
+  const limit = (max - min) / 4;
+  return [-limit, limit];
+};
+
+// Palette color for a slope, flipped for indices where higher means drier so
+// that wetting is always blue
+export const getSlopeColor = (slope: number, index: MoistureIndex, [min, max]: [number, number]) => {
+  const wetting = moistureIndexInfo[index].wetIsHigh ? slope : -slope;
+  const position = (wetting - min) / (max - min);
+  const step = Math.floor(position * SLOPE_PALETTE.length);
+  return SLOPE_PALETTE[Math.min(Math.max(step, 0), SLOPE_PALETTE.length - 1)];
+};
+
+const YEAR_MS = 365.25 * 24 * 60 * 60 * 1000;
+
+// Time axis of trend slopes and intercepts: years since the window's start
+export const yearsSince = (startDate: string, date: string) =>
+  (Date.parse(date) - Date.parse(startDate)) / YEAR_MS;